@@ -1,7 +1,7 @@
 import {
   aspectRatio, vec3, vec4, initGraphics, setResizeCallback, initLambertian3D,
   startDrawing, finishDrawing, setBackgroundColor,
-  BtocMeshReader, SceneTree3D, Node3D, Camera3D,
+  BtocMeshReader, SceneTree3D, Camera3D,
   DirectionalLight3D, Light3DExtension
 } from "tinyhero3d";
 import {PointLight3D} from "../../src/modules/light3D";
@@ -9,7 +9,7 @@ import {PointLight3D} from "../../src/modules/light3D";
 
 const TARGET_FRAMERATE = 30;
 let tree = new SceneTree3D();
-let cameraController: Node3D;
+let camera: Camera3D;
 let orangeLight: PointLight3D;
 let purpleLight: PointLight3D;
 
@@ -57,13 +57,9 @@ async function initScene() {
   purpleLight.color = vec3(0.47, 0.28, 0.64);
   tree.root.addChild(purpleLight);
 
-  // Create a camera that orbits the model.
-  cameraController = new Node3D("camera controller");
-  cameraController.position = vec3(0);
-  tree.root.addChild(cameraController);
-  const camera = Camera3D.Perspective();
-  camera.position = vec3(0, 0, 3);
-  cameraController.addChild(camera);
+  // Create a camera (it's moved around the model in `draw`).
+  camera = Camera3D.Perspective();
+  tree.root.addChild(camera);
 }
 
 function loop() {
@@ -73,10 +69,17 @@ function loop() {
 }
 
 function draw() {
-  // Rotate the camera.
+  // Orbit the camera around the model, while keeping it aimed at the model.
   const time = performance.now()/1000;
   const wiggle = Math.sin(time) * 0.5 + 0.5;
-  cameraController.eulerAngles = vec3(-0.5*wiggle, time/2, 0);
+  const pitch = 0.5*wiggle;
+  const yaw = time/2;
+  camera.position = vec3(
+    Math.sin(yaw) * Math.cos(pitch),
+    Math.sin(pitch),
+    Math.cos(yaw) * Math.cos(pitch)
+  ).mult(3);
+  camera.lookAt(vec3(0));
 
   // Move the lights around.
   orangeLight.position = vec3(wiggle, 0, 1-wiggle);
@@ -1,6 +1,6 @@
 import {
   GL, initGraphics, aspectRatio, setResizeCallback, vec3,
-  initLambertian3D, lambertianFlatColorShader, finishDrawing, startDrawing,
+  initLambertian3D, lambertianFlatColorShader, FrameLoop,
   Mesh, Submesh, Geometry, Material, SceneTree3D, MeshNode3D, Camera3D,
   DirectionalLight3D, Light3DExtension, PointLight3D
 } from "tinyhero3d";
@@ -34,7 +34,9 @@ function main() {
 
   // Start drawing!
   console.log("Starting rendering...");
-  loop();
+  const frameLoop = new FrameLoop(tree, {targetFramerate});
+  frameLoop.onUpdate.connect(() => update(frameLoop.time));
+  frameLoop.start();
 }
 
 function initScene() {
@@ -118,16 +120,8 @@ function initScene() {
   tree.root.addChild(camera);
 }
 
-function loop() {
-  // Keep running `draw()` at the requested framerate.
-  draw();
-  setTimeout(() => requestAnimationFrame(loop), 1000/targetFramerate)
-}
-
-function draw() {
+function update(time: number) {
   // Rotate the cubes each frame.
-  const milliseconds = performance.now();
-  const time = milliseconds/1000;
   const wiggle = Math.sin(time)*0.5 + 0.5;
 
   cube.eulerAngles = vec3(time/2, time/5, time/9);
@@ -141,9 +135,4 @@ function draw() {
 
   cube3.eulerAngles = vec3(time/8, time/7, time/6);
   cube4.globalPosition = vec3(-2.5, 0, 0);
-
-  // Draw!
-  startDrawing();
-  tree.draw();
-  finishDrawing();
 }
@@ -4,4 +4,7 @@ export default {
   transform: {
     "^.+.tsx?$": ["ts-jest",{}],
   },
-};
\ No newline at end of file
+  moduleNameMapper: {
+    "/external/webgl-debug(\\.js)?$": "<rootDir>/test/webgl_debug.ts"
+  },
+};
@@ -1,4 +1,10 @@
 export {default as Array2D} from '../util/array2D.ts';
+export * from '../util/signal.ts';
 export * from '../math/vec.ts';
 export * from '../math/matrix.ts';
+export * from '../math/euler.ts';
+export * from '../math/quat.ts';
+export * from '../math/primitives.ts';
+export * from '../math/curves.ts';
 export * from '../modules/core.ts';
+export * from '../modules/frame_loop.ts';
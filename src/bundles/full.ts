@@ -2,3 +2,4 @@ export * from './unlit3D.ts';
 export * from "../modules/light3D.ts";
 export * from "../modules/lambertian3D.ts";
 export * from "../modules/gltf.ts";
+export * from "../modules/scene_json.ts";
@@ -1,6 +1,9 @@
 export * from './core.ts';
 export * from '../modules/3D.ts'
+export * from "../modules/picking.ts";
+export * from "../modules/lod3D.ts";
 export * from "../modules/light3D.ts";
 export * from "../modules/lambertian3D.ts";
 export * from "../modules/btoc/btoc.ts";
 export * from "../modules/btoc/btoc_mesh.ts";
+export * from "../modules/scene_json.ts";
@@ -1,5 +1,7 @@
 export * from './core.ts';
 export * from '../modules/3D.ts'
+export * from "../modules/picking.ts";
+export * from "../modules/lod3D.ts";
 export * from "../modules/unlit3D.ts";
 export * from "../modules/btoc/btoc.ts";
 export * from "../modules/btoc/btoc_mesh.ts";
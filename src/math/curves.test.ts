@@ -0,0 +1,108 @@
+import {vec3, Vec3} from "./vec.ts";
+import {Matrix4} from "./matrix.ts";
+import {
+  CatmullRomCurve3, CubicBezierCurve3, Curve3, HermiteCurve3
+} from "./curves.ts";
+
+describe("Curves", () => {
+  test("Endpoints & derivatives", () => {
+    const bezier = new CubicBezierCurve3(
+      vec3(0,0,0), vec3(1,2,0), vec3(3,2,1), vec3(4,0,0)
+    );
+    const hermite = new HermiteCurve3(
+      vec3(0,0,0), vec3(1,5,0), vec3(4,0,0), vec3(2,-3,1)
+    );
+    for (const curve of [bezier, hermite]) {
+      expect(curve.getPoint(0).equals(vec3(0,0,0))).toBe(true);
+      expect(curve.getPoint(1).equals(vec3(4,0,0))).toBe(true);
+      for (const t of [0.1, 0.5, 0.8])
+        test_case(curve, t);
+    }
+    expect(hermite.getDerivative(0).equals(vec3(1,5,0))).toBe(true);
+    expect(hermite.getDerivative(1).equals(vec3(2,-3,1))).toBe(true);
+
+    // Compare with the derivatives we get from finite differences.
+    function test_case(curve: Curve3, t: number) {
+      const h = 0.001;
+      const derivative = curve.getPoint(t+h).sub(curve.getPoint(t-h)).div(2*h);
+      const second = curve.getDerivative(t+h)
+        .sub(curve.getDerivative(t-h)).div(2*h);
+      expect(curve.getDerivative(t).sub(derivative).length())
+        .toBeLessThan(0.01);
+      expect(curve.getSecondDerivative(t).sub(second).length())
+        .toBeLessThan(0.01);
+    }
+  });
+
+  test("Catmull-Rom goes through its points", () => {
+    const points = [vec3(0,0,0), vec3(1,1,0), vec3(3,1,2), vec3(4,0,0)];
+    test_case(new CatmullRomCurve3(points));
+    test_case(new CatmullRomCurve3(points, true));
+
+    function test_case(curve: CatmullRomCurve3) {
+      const n = curve.segmentCount;
+      points.forEach((point, i) => {
+        const squareError = curve.getPoint(i/n).sub(point).squareLength();
+        expect(squareError).toBeLessThan(0.0001);
+      });
+    }
+
+    // A closed curve loops back to the start.
+    const closed = new CatmullRomCurve3(points, true);
+    const squareError = closed.getPoint(1).sub(points[0]).squareLength();
+    expect(squareError).toBeLessThan(0.0001);
+  });
+
+  test("Arc length", () => {
+    // This is a straight line, but most of it is covered near the end.
+    const line = new CubicBezierCurve3(
+      vec3(0,0,0), vec3(0,0,0), vec3(0,0,0), vec3(10,0,0)
+    );
+    expect(line.getLength()).toBeCloseTo(10);
+    expect(line.getPoint(0.5).x).toBeCloseTo(1.25);
+    expect(line.getPointAt(0.5).x).toBeCloseTo(5, 1);
+
+    const spaced = line.getSpacedPoints(10);
+    expect(spaced.length).toBe(11);
+    for (let i = 0; i <= 10; i++)
+      expect(spaced[i].x).toBeCloseTo(i, 1);
+
+    // The tangent is defined even where the derivative is zero.
+    expect(line.getDerivative(0).length()).toBe(0);
+    expect(line.getTangent(0).sub(vec3(1,0,0)).length()).toBeLessThan(0.0001);
+  });
+
+  test("Frames", () => {
+    const curve = new CatmullRomCurve3([
+      vec3(0,0,0), vec3(2,1,0), vec3(4,-1,2), vec3(6,0,0), vec3(8,3,-1)
+    ]);
+    const frames = curve.computeFrames(100);
+    expect(frames.length).toBe(101);
+    frames.forEach((frame, i) => {
+      check_orthonormal([frame.tangent, frame.normal, frame.binormal]);
+      // Parallel transport shouldn't make the normal jump around.
+      if (i > 0)
+        expect(frame.normal.dot(frames[i-1].normal)).toBeGreaterThan(0.9);
+    });
+
+    const frenet = curve.getFrenetFrame(0.3);
+    check_orthonormal([frenet.tangent, frenet.normal, frenet.binormal]);
+    // The normal points towards the inside of the bend.
+    const acceleration = curve.getSecondDerivative(0.3);
+    expect(frenet.normal.dot(acceleration)).toBeGreaterThan(0);
+
+    // Objects placed on the curve look along it.
+    const transform = curve.getTransformAt(0.4);
+    const forward = Matrix4.transformDirection(transform, vec3(0,0,-1));
+    expect(forward.sub(curve.getTangentAt(0.4)).length()).toBeLessThan(0.0001);
+    const position = Matrix4.getTranslation(transform);
+    expect(position.sub(curve.getPointAt(0.4)).length()).toBeLessThan(0.0001);
+
+    function check_orthonormal(axes: Vec3[]) {
+      for (let i = 0; i < 3; i++) {
+        expect(axes[i].length()).toBeCloseTo(1);
+        expect(axes[i].dot(axes[(i+1) % 3])).toBeCloseTo(0);
+      }
+    }
+  });
+});
@@ -0,0 +1,324 @@
+import {N3, Vec, vec3, Vec3} from "./vec";
+import {Matrix4} from "./matrix";
+import {Quat} from "./quat";
+
+// The orientation of a curve at some point. All three vectors have a length of
+// one and are perpendicular to each other.
+export interface CurveFrame {
+  tangent: Vec3;
+  normal: Vec3;
+  binormal: Vec3;
+}
+
+// A curve going from `t = 0` to `t = 1`. Note that `t` isn't proportional to
+// the distance travelled along the curve. Functions ending with `At` take a
+// fraction of the curve's length instead (called `u`), which is what you want
+// for moving things at a constant speed.
+export abstract class Curve3 {
+  // How many straight segments are used to measure the length of the curve.
+  public arcLengthDivisions = 200;
+  _arcLengths: number[]|null = null;
+
+  public abstract getPoint(t: number): Vec3;
+  public abstract getDerivative(t: number): Vec3;
+  public abstract getSecondDerivative(t: number): Vec3;
+
+  public getTangent(t: number): Vec3 {
+    const derivative = this.getDerivative(t);
+    if (derivative.length() > 0.000001)
+      return Vec3.from(derivative.normalized());
+
+    // The derivative can be zero (for example when two control points of a
+    // Bézier curve are the same), so we look at the points around it instead.
+    const before = this.getPoint(Math.max(0, t - 0.001));
+    const after = this.getPoint(Math.min(1, t + 0.001));
+    return Vec3.from(after.sub(before).normalized());
+  }
+
+
+  // Arc length
+
+  // The length of the curve at each of the `arcLengthDivisions + 1` evenly
+  // spaced values of `t`.
+  public getArcLengths(): number[] {
+    if (this._arcLengths)
+      return this._arcLengths;
+
+    const lengths = [0];
+    let previous = this.getPoint(0);
+    for (let i = 1; i <= this.arcLengthDivisions; i++) {
+      const point = this.getPoint(i / this.arcLengthDivisions);
+      lengths.push(lengths[i-1] + point.sub(previous).length());
+      previous = point;
+    }
+    this._arcLengths = lengths;
+    return lengths;
+  }
+
+  // The lengths are cached, so this should be called after the curve has been
+  // changed (for example after moving its control points).
+  public updateArcLengths() {
+    this._arcLengths = null;
+  }
+
+  public getLength(): number {
+    const lengths = this.getArcLengths();
+    return lengths[lengths.length - 1];
+  }
+
+  // Convert a fraction of the curve's length into a value of `t`.
+  public getTForU(u: number): number {
+    const lengths = this.getArcLengths();
+    const target = Math.max(0, Math.min(1, u)) * this.getLength();
+
+    // Find the last division that starts before the target.
+    let low = 0;
+    let high = lengths.length - 1;
+    while (low < high - 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (lengths[middle] <= target)
+        low = middle;
+      else
+        high = middle;
+    }
+
+    const divisionLength = lengths[high] - lengths[low];
+    const fraction =
+      divisionLength > 0 ? (target - lengths[low]) / divisionLength : 0;
+    return (low + fraction) / (lengths.length - 1);
+  }
+
+  public getPointAt(u: number): Vec3 {
+    return this.getPoint(this.getTForU(u));
+  }
+
+  public getTangentAt(u: number): Vec3 {
+    return this.getTangent(this.getTForU(u));
+  }
+
+
+  // Sampling
+
+  // Get `divisions + 1` points along the curve, evenly spaced in `t`.
+  public getPoints(divisions = 50): Vec3[] {
+    const points = [];
+    for (let i = 0; i <= divisions; i++)
+      points.push(this.getPoint(i / divisions));
+    return points;
+  }
+
+  // Get `divisions + 1` points along the curve, evenly spaced in length.
+  public getSpacedPoints(divisions = 50): Vec3[] {
+    const points = [];
+    for (let i = 0; i <= divisions; i++)
+      points.push(this.getPointAt(i / divisions));
+    return points;
+  }
+
+
+  // Frames
+
+  // The Frenet frame has its normal pointing towards the center of the curve's
+  // bend. It flips around at inflection points and isn't defined on straight
+  // parts, so `computeFrames` is usually a better choice.
+  public getFrenetFrame(t: number): CurveFrame {
+    const tangent = this.getTangent(t);
+    const bend = Vec3.cross(this.getDerivative(t), this.getSecondDerivative(t));
+    if (bend.length() < 0.000001)
+      return Curve3._frameFromTangent(tangent, Curve3._anyNormal(tangent));
+
+    const binormal = Vec3.from(bend.normalized());
+    const normal = Vec3.cross(binormal, tangent);
+    return {tangent, normal, binormal};
+  }
+
+  // Compute `divisions + 1` frames evenly spaced in length, using parallel
+  // transport: each frame is rotated as little as possible compared to the
+  // previous one, so the frames don't twist or flip around.
+  // See https://www.cs.indiana.edu/pub/techreports/TR425.pdf
+  public computeFrames(divisions = 50): CurveFrame[] {
+    let tangent = this.getTangentAt(0);
+    const frames = [
+      Curve3._frameFromTangent(tangent, Curve3._anyNormal(tangent))
+    ];
+
+    for (let i = 1; i <= divisions; i++) {
+      const previous = frames[i-1];
+      tangent = this.getTangentAt(i / divisions);
+      let normal = previous.normal;
+
+      const axis = Vec3.cross(previous.tangent, tangent);
+      if (axis.length() > 0.000001) {
+        const cos = Math.max(-1, Math.min(1, previous.tangent.dot(tangent)));
+        normal = Quat.FromAxisAngle(axis, Math.acos(cos)).rotate(normal);
+      }
+      frames.push(Curve3._frameFromTangent(tangent, normal));
+    }
+    return frames;
+  }
+
+  // Get the transform of an object at `u` along the curve whose -Z axis faces
+  // along the curve (just like with Matrix4.LookAt).
+  public getTransformAt(u: number, up = vec3(0,1,0)): Matrix4 {
+    const t = this.getTForU(u);
+    const point = this.getPoint(t);
+    const ahead = Vec3.from(point.add(this.getTangent(t)));
+    return Matrix4.LookAt(point, ahead, up);
+  }
+
+  static _frameFromTangent(tangent: Vec3, normal: Vec<N3>): CurveFrame {
+    // Make sure the normal is perpendicular to the tangent.
+    const binormal = Vec3.from(Vec3.cross(tangent, normal).normalized());
+    return {tangent, normal: Vec3.cross(binormal, tangent), binormal};
+  }
+
+  static _anyNormal(tangent: Vec3): Vec3 {
+    // We use the axis that's the least aligned with the tangent.
+    const abs = tangent.elems.map(Math.abs);
+    const axis = vec3(0);
+    axis.elems[abs.indexOf(Math.min(...abs))] = 1;
+    return Vec3.from(Vec3.cross(tangent, axis).normalized());
+  }
+}
+
+
+// Curves
+
+export class CubicBezierCurve3 extends Curve3 {
+  public constructor(
+    public p0: Vec3, public p1: Vec3, public p2: Vec3, public p3: Vec3
+  ) {
+    super();
+  }
+
+  public getPoint(t: number): Vec3 {
+    // See https://en.wikipedia.org/wiki/B%C3%A9zier_curve#Cubic_B%C3%A9zier_curves
+    const s = 1 - t;
+    return weightedSum(
+      [this.p0, this.p1, this.p2, this.p3],
+      [s*s*s, 3*s*s*t, 3*s*t*t, t*t*t]
+    );
+  }
+
+  public getDerivative(t: number): Vec3 {
+    const s = 1 - t;
+    return weightedSum(
+      [this.p0, this.p1, this.p2, this.p3],
+      [-3*s*s, 3*s*s - 6*s*t, 6*s*t - 3*t*t, 3*t*t]
+    );
+  }
+
+  public getSecondDerivative(t: number): Vec3 {
+    const s = 1 - t;
+    return weightedSum(
+      [this.p0, this.p1, this.p2, this.p3],
+      [6*s, 6*t - 12*s, 6*s - 12*t, 6*t]
+    );
+  }
+}
+
+// A curve going from `p0` to `p1`, with the given derivatives at both ends.
+export class HermiteCurve3 extends Curve3 {
+  public constructor(
+    public p0: Vec3, public m0: Vec3, public p1: Vec3, public m1: Vec3
+  ) {
+    super();
+  }
+
+  public getPoint(t: number): Vec3 {
+    // See https://en.wikipedia.org/wiki/Cubic_Hermite_spline
+    const t2 = t*t, t3 = t*t*t;
+    return weightedSum(
+      [this.p0, this.m0, this.p1, this.m1],
+      [2*t3 - 3*t2 + 1, t3 - 2*t2 + t, -2*t3 + 3*t2, t3 - t2]
+    );
+  }
+
+  public getDerivative(t: number): Vec3 {
+    const t2 = t*t;
+    return weightedSum(
+      [this.p0, this.m0, this.p1, this.m1],
+      [6*t2 - 6*t, 3*t2 - 4*t + 1, -6*t2 + 6*t, 3*t2 - 2*t]
+    );
+  }
+
+  public getSecondDerivative(t: number): Vec3 {
+    return weightedSum(
+      [this.p0, this.m0, this.p1, this.m1],
+      [12*t - 6, 6*t - 4, -12*t + 6, 6*t - 2]
+    );
+  }
+}
+
+// A smooth curve that goes through all the given points. Each pair of
+// consecutive points takes the same range of `t`.
+// A tension of 0.5 gives the usual Catmull-Rom spline, lower values give
+// tighter corners.
+export class CatmullRomCurve3 extends Curve3 {
+  public constructor(
+    public points: Vec3[], public closed = false, public tension = 0.5
+  ) {
+    super();
+    console.assert(
+      points.length >= 2, "A Catmull-Rom curve needs at least two points!"
+    );
+  }
+
+  get segmentCount(): number {
+    return this.closed ? this.points.length : this.points.length - 1;
+  }
+
+  public getPoint(t: number): Vec3 {
+    const [segment, local] = this._getSegment(t);
+    return segment.getPoint(local);
+  }
+
+  public getDerivative(t: number): Vec3 {
+    const [segment, local] = this._getSegment(t);
+    return Vec3.from(segment.getDerivative(local).mult(this.segmentCount));
+  }
+
+  public getSecondDerivative(t: number): Vec3 {
+    const [segment, local] = this._getSegment(t);
+    const n = this.segmentCount;
+    return Vec3.from(segment.getSecondDerivative(local).mult(n*n));
+  }
+
+  // Each segment is a Hermite curve whose derivatives at the ends point from
+  // the previous point to the next one.
+  _getSegment(t: number): [HermiteCurve3, number] {
+    const n = this.segmentCount;
+    const scaled = Math.max(0, Math.min(1, t)) * n;
+    const i = Math.min(Math.floor(scaled), n-1);
+
+    const p1 = this._getPoint(i);
+    const p2 = this._getPoint(i+1);
+    const m1 = this._getPoint(i+1).sub(this._getPoint(i-1)).mult(this.tension);
+    const m2 = this._getPoint(i+2).sub(this._getPoint(i)).mult(this.tension);
+    const segment = new HermiteCurve3(p1, Vec3.from(m1), p2, Vec3.from(m2));
+    return [segment, scaled - i];
+  }
+
+  _getPoint(i: number): Vec3 {
+    const points = this.points;
+    const count = points.length;
+    if (this.closed)
+      return points[(i % count + count) % count];
+
+    // We extend the curve in a straight line past both ends.
+    if (i < 0)
+      return Vec3.from(points[0].mult(2).sub(points[1]));
+    if (i >= count)
+      return Vec3.from(points[count-1].mult(2).sub(points[count-2]));
+    return points[i];
+  }
+}
+
+
+function weightedSum(points: Vec3[], weights: number[]): Vec3 {
+  const result = vec3(0);
+  for (let i = 0; i < points.length; i++)
+    for (let axis = 0; axis < 3; axis++)
+      result.elems[axis] += points[i].elems[axis] * weights[i];
+  return result;
+}
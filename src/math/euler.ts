@@ -0,0 +1,26 @@
+// The order in which Euler angles are applied. For example, XYZ means that we
+// first rotate around the X axis (pitch), then around the Y axis (yaw), and
+// finally around the Z axis (roll), which gives the matrix Rz * Ry * Rx. This
+// is the same naming as Blender and Maya use.
+export enum EulerOrder {
+  XYZ,
+  XZY,
+  YXZ,
+  YZX,
+  ZXY,
+  ZYX,
+}
+
+const axesPerOrder: [number, number, number][] = [
+  [0, 1, 2],
+  [0, 2, 1],
+  [1, 0, 2],
+  [1, 2, 0],
+  [2, 0, 1],
+  [2, 1, 0],
+];
+
+// Returns the axes (0 for X, 1 for Y, 2 for Z) in the order they're applied.
+export function getEulerAxes(order: EulerOrder): [number, number, number] {
+  return axesPerOrder[order];
+}
@@ -1,5 +1,6 @@
 import {vec2, Vec2, Vec2Tuple, Vec3Tuple, vec3, vec4, Vec3} from "./vec.ts";
-import {Matrix3, Matrix4} from "./matrix.ts";
+import {Matrix, Matrix3, Matrix4} from "./matrix.ts";
+import {EulerOrder, getEulerAxes} from "./euler.ts";
 
 describe("Matrix3", () => {
   test("TranslateScale2D & transform", () => {
@@ -45,9 +46,81 @@ describe("Matrix3", () => {
       expect(squareError).toBeLessThan(0.0001);
     }
   })
+
+  test("Euler angles round trip", () => {
+    const orders = [
+      EulerOrder.XYZ, EulerOrder.XZY, EulerOrder.YXZ,
+      EulerOrder.YZX, EulerOrder.ZXY, EulerOrder.ZYX,
+    ];
+    for (const order of orders) {
+      test_case(vec3(0.4, 1.2, 0.1), order);
+      test_case(vec3(-2, 0.3, 2.5), order);
+      test_case(vec3(0.7, -1.4, -0.2), order);
+      // Gimbal lock, the middle axis is at 90°.
+      const euler = vec3(0.3, 0.6, 0.9);
+      euler.elems[getEulerAxes(order)[1]] = Math.PI/2;
+      test_case(euler, order);
+    }
+
+    // Each order applies the rotations one after the other.
+    const [X, Y, Z] = [0, 1, 2].map(axis => Matrix3.AxisAlignedRotation(
+      axis, vec3(0.1, 0.2, 0.3).elems[axis]
+    ));
+    test_case2(EulerOrder.XYZ, Z.mult(Y).mult(X));
+    test_case2(EulerOrder.YXZ, Z.mult(X).mult(Y));
+    test_case2(EulerOrder.ZXY, Y.mult(X).mult(Z));
+
+    function test_case(euler: Vec3, order: EulerOrder) {
+      const expected = Matrix3.RotateScale3D(euler, vec3(1,2,3), order);
+      const derived = Matrix3.deriveEulerAngles3D(expected, order);
+      const actual = Matrix3.RotateScale3D(derived, vec3(1,2,3), order);
+      for (let i = 0; i < 9; i++)
+        expect(actual.elems[i]).toBeCloseTo(expected.elems[i]);
+    }
+
+    function test_case2(order: EulerOrder, expected: Matrix3) {
+      const actual = Matrix3.Rotate3D(vec3(0.1, 0.2, 0.3), order);
+      for (let i = 0; i < 9; i++)
+        expect(actual.elems[i]).toBeCloseTo(expected.elems[i]);
+    }
+  });
 });
 
 describe("Matrix4", () => {
+  test("Into functions", () => {
+    const translate = vec3(1,2,3);
+    const euler = vec3(0.5,1,2);
+    const scale = vec3(2,3,4);
+    const expected = Matrix4.Translate3D(translate)
+      .mult(Matrix4.Rotate3D(euler))
+      .mult(Matrix4.Scale3D(scale));
+
+    // TRS3DInto should overwrite everything in the output matrix.
+    const out = Matrix4.PerspectiveProjection(1, 1, 1, 10);
+    Matrix4.TRS3DInto(translate, euler, scale, out);
+    expect_equal(out, expected);
+
+    // The output is allowed to be one of the inputs.
+    const a = Matrix4.TRS3D(translate, euler, scale);
+    a.multInto(a, a);
+    expect_equal(a, expected.mult(expected));
+
+    const b = Matrix4.TRS3D(translate, euler, scale);
+    Matrix4.affineInvertInto(b, b);
+    expect_equal(b, Matrix4.affineInvert(expected));
+
+    const normals = Matrix3.getTransformForNormalsInto(
+      expected, Matrix3.identity.clone()
+    );
+    expect_equal(normals, Matrix3.invert(expected).transposed());
+
+    function expect_equal<T>(actual: Matrix<T>, expected: Matrix<T>) {
+      expect(actual.elems.length).toBe(expected.elems.length);
+      for (let i = 0; i < expected.elems.length; i++)
+        expect(actual.elems[i]).toBeCloseTo(expected.elems[i]);
+    }
+  });
+
   test("AffineInvert", () => {
     test_case(
       Matrix4.TranslateScale3D(vec3(1,0,0), vec3(1)), vec3(0)
@@ -72,4 +145,88 @@ describe("Matrix4", () => {
     }
   });
 
-})
\ No newline at end of file
+  test("Invert", () => {
+    test_case(Matrix4.TRS3D(vec3(1,2,3), vec3(0.5,1,2), vec3(2,3,4)));
+    test_case(Matrix4.PerspectiveProjection(1.2, 1.5, 0.1, 100));
+    test_case(Matrix4.OrthographicProjection(-2, 4, -1, 1, 0.5, 10));
+    test_case(new Matrix4([
+      0, 1, 0, 0,
+      1, 0, 0, 0,
+      0, 0, 0, 2,
+      0, 0, 3, 0
+    ]));
+
+    function test_case(matrix: Matrix4) {
+      const product = matrix.mult(Matrix4.invert(matrix));
+      for (let i = 0; i < 16; i++)
+        expect(product.elems[i])
+          .toBeCloseTo(Matrix4.identity.elems[i]);
+    }
+  });
+
+  test("LookAt", () => {
+    test_case(vec3(0,0,5), vec3(0), vec3(0,1,0));
+    test_case(vec3(3,-2,1), vec3(1,2,3), vec3(0,1,0));
+    test_case(vec3(0,5,0), vec3(0), vec3(0,1,0));  // Looking straight down
+
+    function test_case(eye: Vec3, target: Vec3, up: Vec3) {
+      const matrix = Matrix4.LookAt(eye, target, up);
+      const forward = matrix.transform(vec4(0,0,-1,0)).xyz;
+      const expected = target.sub(eye).normalized();
+      expect(forward.sub(expected).squareLength()).toBeLessThan(0.0001);
+      expect(Matrix4.getTranslation(matrix).equals(eye)).toBe(true);
+      expect(Matrix3.determinant(matrix)).toBeCloseTo(1);
+      // The X axis should stay horizontal.
+      expect(matrix.transform(vec4(1,0,0,0)).dot(vec4(up, 0))).toBeCloseTo(0);
+    }
+  });
+
+  test("OrthographicProjection", () => {
+    const matrix = Matrix4.OrthographicProjection(-2, 4, -1, 1, 0.5, 10);
+    test_case(vec3(-2,-1,-0.5), vec3(-1,-1,-1));
+    test_case(vec3(4,1,-10), vec3(1,1,1));
+    test_case(vec3(1,0,-5.25), vec3(0,0,0));
+
+    function test_case(input: Vec3, expected: Vec3) {
+      const actual = matrix.transform(vec4(input, 1));
+      expect(actual.w).toBeCloseTo(1);
+      const squareError = actual.xyz.sub(expected).squareLength();
+      expect(squareError).toBeLessThan(0.0001);
+    }
+  });
+
+  test("Decompose & compose", () => {
+    const translation = vec3(1,2,3);
+    const rotation = vec3(0.3,-0.5,1.2);
+    test_case(Matrix4.TRS3D(translation, rotation, vec3(2,3,4)), vec3(2,3,4));
+    test_case(Matrix4.TRS3D(translation, vec3(0), vec3(-1,1,1)), vec3(-1,1,1));
+    test_case(Matrix4.TRS3D(translation, vec3(0), vec3(1,-2,1)), vec3(1,-2,1));
+    test_case(Matrix4.TRS3D(translation, rotation, vec3(0,2,1)), vec3(0,2,1));
+
+    const sheared = Matrix4.TRS3D(translation, rotation, vec3(1,2,3))
+      .mult(new Matrix4([
+        1, 0.5, 0, 0,
+        0, 1, -0.2, 0,
+        0, 0, 1, 0,
+        0, 0, 0, 1
+      ]));
+    test_case(sheared, vec3(1,2,3), true);
+
+    // When there's a rotation, any axis can be the mirrored one, but it should
+    // still round trip.
+    const mirrored = Matrix4.TRS3D(translation, rotation, vec3(1,-2,1));
+    const scale = Matrix4.decompose(mirrored).scale;
+    expect(scale.x * scale.y * scale.z).toBeCloseTo(-2);
+    test_case(mirrored, scale);
+
+    function test_case(matrix: Matrix4, scale: Vec3, hasShear = false) {
+      const parts = Matrix4.decompose(matrix);
+      expect(parts.translation.equals(translation)).toBe(true);
+      expect(parts.scale.sub(scale).squareLength()).toBeLessThan(0.0001);
+      expect(parts.hasShear).toBe(hasShear);
+      const actual = Matrix4.compose(parts);
+      for (let i = 0; i < 16; i++)
+        expect(actual.elems[i]).toBeCloseTo(matrix.elems[i]);
+    }
+  });
+})
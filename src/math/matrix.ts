@@ -1,10 +1,16 @@
-import Array2D from "../util/array2D";
 import {N2, N3, N4, Vec, vec2, Vec2, vec3, Vec3} from "./vec";
+import {Quat} from "./quat";
+import {EulerOrder, getEulerAxes} from "./euler";
 
 export class Matrix<T> {
   // Note that we implicitly transpose all of the operations because it makes
-  // OpenGL happy to receive the elements in that order.
-  public elems: Array2D<number>;
+  // OpenGL happy to receive the elements in that order (column-major).
+  // The elements are stored in a Float32Array, which can be handed to OpenGL
+  // as-is without any copying.
+  public elems: Float32Array;
+  public width: number;
+
+  get height() { return Math.floor(this.elems.length / this.width); }
 
   // This is never used, but it's here so that Typescript considers Vec2 as
   // being a different type than Vec3 (it makes their structures dissimilar).
@@ -12,97 +18,136 @@ export class Matrix<T> {
 
   // Constructors & clone
 
-  public constructor(elems: Array2D<number>) {
-    this.elems = elems;
+  public constructor(width: number, elems: ArrayLike<number>) {
+    console.assert(elems.length % width === 0);
+    this.width = width;
+    this.elems =
+      (elems instanceof Float32Array ? elems : new Float32Array(elems));
   }
 
   public clone(): Matrix<T> {
-    return new Matrix<T>(this.elems.clone());
+    return new Matrix<T>(this.width, this.elems.slice());
+  }
+
+  public copyFrom(b: Matrix<T>) {
+    console.assert(this.elems.length === b.elems.length);
+    this.elems.set(b.elems);
   }
 
 
   // Element getters & setters
 
   public get(pos: Vec2): number {
-    return this.elems.get(pos.y, pos.x);
+    return this.get2(pos.x, pos.y);
   }
   public get2(x: number, y: number): number {
-    return this.elems.get(y, x);
+    return this.elems[y + x*this.height];
   }
 
   public set(pos: Vec2, value: number) {
-    return this.elems.set(pos.y, pos.x, value);
+    this.set2(pos.x, pos.y, value);
   }
   public set2(x: number, y: number, value: number) {
-    return this.elems.set(y, x, value);
+    this.elems[y + x*this.height] = value;
   }
 
 
   // Operations
+  // The functions that end with `Into` write their result into `out` instead
+  // of allocating a new matrix, which is better for code that runs every
+  // frame. It's fine if `out` is one of the inputs.
 
   public mult(b: Matrix<T>): Matrix<T> {
-    const w = this.elems.width;
-    const new_width = b.elems.width;
-    const new_height = this.elems.height;
+    const out = new Matrix<T>(b.width, new Float32Array(b.width*this.height));
+    return this.multInto(b, out);
+  }
 
-    if (w != b.elems.height)
+  public multInto(b: Matrix<T>, out: Matrix<T>): Matrix<T> {
+    const w = this.width;
+    const newWidth = b.width;
+    const newHeight = this.height;
+
+    if (w != b.height)
       throw new Error("Matrices can't be multiplied together :(");
+    console.assert(
+      out.width === newWidth && out.height === newHeight,
+      "The output matrix of `multInto` has the wrong size."
+    );
 
-    const result = new Array(new_width * new_height);
-    for (let x = 0; x < new_width; x++) {
-      for (let y = 0; y < new_height; y++) {
+    const aElems = this.elems;
+    const bElems = b.elems;
+    const bHeight = b.height;
+    const isAliased = (out === this || out === b);
+    const result = (isAliased ? getScratch(newWidth*newHeight) : out.elems);
+
+    for (let x = 0; x < newWidth; x++) {
+      for (let y = 0; y < newHeight; y++) {
         let value = 0;
         for (let i = 0; i < w; i++)
-          value += this.get2(i, y) * b.get2(x, i);
-        result[y + x*new_height] = value;
+          value += aElems[y + i*newHeight] * bElems[i + x*bHeight];
+        result[y + x*newHeight] = value;
       }
     }
 
-    return new Matrix<T>(new Array2D<number>(new_width, result));
+    if (isAliased)
+      out.elems.set(result.subarray(0, newWidth*newHeight));
+    return out;
   }
 
   public scalarMultInPlace(b: number) {
-    for (let i = 0; i < this.elems.elems.length; i++)
-      this.elems.elems[i] *= b;
+    for (let i = 0; i < this.elems.length; i++)
+      this.elems[i] *= b;
   }
 
   public transform<U>(b: Vec<U>): Vec<U> {
-    const w = this.elems.width;
+    return this.transformInto(b, new Vec<U>(new Float32Array(this.height)));
+  }
 
-    console.assert(
-      w === this.elems.height,
-      "Transformation matrices have to be square."
-    );
+  public transformInto<U>(b: Vec<U>, out: Vec<U>): Vec<U> {
+    const w = this.width;
+    const h = this.height;
+
+    console.assert(w === h, "Transformation matrices have to be square.");
     if (w != b.elems.length)
       throw new Error("Matrix and vector can't be multiplied together :(");
 
-    const result = new Array(this.elems.height);
-    for (let y = 0; y < this.elems.height; y++) {
+    const isAliased = (out === b);
+    const result = (isAliased ? getScratch(h) : out.elems);
+    for (let y = 0; y < h; y++) {
       let value = 0;
       for (let i = 0; i < w; i++)
-        value += this.get2(i, y) * b.elems[i];
+        value += this.elems[y + i*h] * b.elems[i];
       result[y] = value;
     }
 
-    return new Vec<U>(result);
+    if (isAliased)
+      out.elems.set(result.subarray(0, h));
+    return out;
   }
 
   public transposed(): Matrix<T> {
-    const copy = [...this.elems.elems];
-    const result = new Matrix<T>(new Array2D<number>(this.elems.height, copy));
-
-    for (let y = 0; y < this.elems.height; y++)
-      for (let x = 0; x < this.elems.width; x++)
-        result.elems.set(y, x, this.elems.get(x, y));
-
+    const result = new Matrix<T>(this.height, new Float32Array(this.elems));
+    for (let y = 0; y < this.height; y++)
+      for (let x = 0; x < this.width; x++)
+        result.set2(y, x, this.get2(x, y));
     return result;
   }
 
   public transpose() {
-    this.elems = this.transposed().elems;
+    const transposed = this.transposed();
+    this.width = transposed.width;
+    this.elems = transposed.elems;
   }
 }
 
+// This is used by the `Into` functions for intermediate results, so that they
+// don't have to allocate anything.
+const scratch = new Float32Array(16);
+
+function getScratch(size: number): Float32Array {
+  return (size <= scratch.length ? scratch : new Float32Array(size));
+}
+
 
 // The main matrix types.
 
@@ -118,7 +163,7 @@ export class Matrix2 extends Matrix<N2> {
       number,number
     ]
   ) {
-    super(new Array2D<number>(2, elems));
+    super(2, elems);
   }
 }
 
@@ -130,6 +175,11 @@ export class Matrix3 extends Matrix<N3> {
     0, 0, 1
   ], false);
 
+  // Scratch matrices for intermediate results in the `Into` functions.
+  static _scratch: Matrix3[] = [
+    Matrix3.identity.clone(), Matrix3.identity.clone()
+  ];
+
   public constructor(
     elems: [
       number,number,number,
@@ -138,7 +188,7 @@ export class Matrix3 extends Matrix<N3> {
     ],
     transpose = true
   ) {
-    super(new Array2D<number>(3, elems));
+    super(3, elems);
     if (transpose)
       this.transpose();
   }
@@ -181,28 +231,75 @@ export class Matrix3 extends Matrix<N3> {
     ], false);
   }
 
-  public static RotateScale3D(euler: Vec3, scale: Vec3): Matrix3 {
-    return Matrix3.Rotate3D(euler).mult(Matrix3.Scale3D(scale));
+  public static RotateScale3D(
+    rotation: Vec3|Quat, scale: Vec3, order = EulerOrder.XYZ
+  ): Matrix3 {
+    return Matrix3.Rotate3D(rotation, order).mult(Matrix3.Scale3D(scale));
+  }
+
+  // The rotation can either be Euler angles or a quaternion. The order is
+  // ignored for quaternions.
+  public static Rotate3D(
+    rotation: Vec3|Quat, order = EulerOrder.XYZ
+  ): Matrix3 {
+    return Matrix3.Rotate3DInto(rotation, Matrix3.identity.clone(), order);
+  }
+
+  public static Rotate3DInto(
+    rotation: Vec3|Quat, out: Matrix<N3>, order = EulerOrder.XYZ
+  ): Matrix3 {
+    if (rotation instanceof Quat)
+      return Matrix3.RotateQuat3DInto(rotation, out);
+    const euler = rotation;
+    const [first, second, third] = getEulerAxes(order);
+    const a = Matrix3._scratch[0];
+    const b = Matrix3._scratch[1];
+    Matrix3.AxisAlignedRotationInto(second, euler.elems[second], a);
+    Matrix3.AxisAlignedRotationInto(first, euler.elems[first], b);
+    a.multInto(b, a);
+    Matrix3.AxisAlignedRotationInto(third, euler.elems[third], out);
+    return out.multInto(a, out);
+  }
+
+  public static RotateQuat3D(q: Quat): Matrix3 {
+    return Matrix3.RotateQuat3DInto(q, Matrix3.identity.clone());
+  }
+
+  public static RotateQuat3DInto(q: Quat, out: Matrix<N3>): Matrix3 {
+    // See https://en.wikipedia.org/wiki/Quaternions_and_spatial_rotation#Quaternion-derived_rotation_matrix
+    const length = q.length();
+    const x = q.x/length, y = q.y/length, z = q.z/length, w = q.w/length;
+    out.set2(0,0, 1 - 2*(y*y + z*z));
+    out.set2(1,0, 2*(x*y - z*w));
+    out.set2(2,0, 2*(x*z + y*w));
+    out.set2(0,1, 2*(x*y + z*w));
+    out.set2(1,1, 1 - 2*(x*x + z*z));
+    out.set2(2,1, 2*(y*z - x*w));
+    out.set2(0,2, 2*(x*z - y*w));
+    out.set2(1,2, 2*(y*z + x*w));
+    out.set2(2,2, 1 - 2*(x*x + y*y));
+    return out;
   }
 
-  public static Rotate3D(euler: Vec3): Matrix3 {
-    const yaw = Matrix3.AxisAlignedRotation(1, euler.y);
-    const pitch = Matrix3.AxisAlignedRotation(0, euler.x);
-    const roll = Matrix3.AxisAlignedRotation(2, euler.z);
-    return roll.mult(yaw.mult(pitch));
+  public static AxisAlignedRotation(axis: number, radians: number): Matrix3 {
+    return Matrix3.AxisAlignedRotationInto(
+      axis, radians, Matrix3.identity.clone()
+    );
   }
 
-  public static AxisAlignedRotation(axis: number, radians: number): Matrix3 {
-    const result = Matrix3.identity.clone();
+  public static AxisAlignedRotationInto(
+    axis: number, radians: number, out: Matrix<N3>
+  ): Matrix3 {
+    out.copyFrom(Matrix3.identity);
     const x1 = (axis+1) % 3;
     const x2 = (axis+2) % 3;
     const cos = Math.cos(radians);
     const sin = Math.sin(radians);
-    result.set2(x1, x1, cos);
-    result.set2(x2, x2, cos);
-    result.set2(x1, x2, sin);
-    result.set2(x2, x1, -sin);
-    return result;
+    out.set2(x1, x1, cos);
+    out.set2(x2, x2, cos);
+    out.set2(x1, x2, sin);
+    out.set2(x2, x1, -sin);
+    return out;
   }
 
   public static setTranslation2D(m: Matrix3, tl: Vec2) {
@@ -219,88 +316,45 @@ export class Matrix3 extends Matrix<N3> {
     return scale.mult(Math.sign(Matrix3.determinant(m)));
   }
 
-  // This uses the XYZ convention (that is: first pitch, yaw, then roll).
-  public static deriveEulerAngles3D<U>(m: Matrix<U>): Vec3 {
+  public static deriveEulerAngles3D<U>(
+    m: Matrix<U>, order = EulerOrder.XYZ
+  ): Vec3 {
     const m2 = m.clone();
     Matrix3.changeToRotationMatrix(m2);
-    return Matrix3._deriveEulerAngles3D(m2);
+    return Matrix3._deriveEulerAngles3D(m2, order);
   }
 
-  static _deriveEulerAngles3D<U>(m: Matrix<U>): Vec3 {
-    // See https://www.eecs.qmul.ac.uk/~gslabaugh/publications/euler.pdf
-    let x, y, z;
+  public static deriveRotation3D<U>(m: Matrix<U>): Quat {
+    const m2 = m.clone();
+    Matrix3.changeToRotationMatrix(m2);
+    return Quat.FromMatrix(m2);
+  }
+
+  static _deriveEulerAngles3D<U>(m: Matrix<U>, order: EulerOrder): Vec3 {
+    // See https://www.geometrictools.com/Documentation/EulerAngles.pdf
+    // The matrix is Rk * Rj * Ri, where i, j and k are the axes in the order
+    // they're applied. When the axes are an odd permutation of XYZ, some of
+    // the signs are flipped.
+    const [i, j, k] = getEulerAxes(order);
+    const sign = (j === (i+1) % 3) ? 1 : -1;
+    const at = (row: number, column: number) => m.get2(column, row);
+    const angles = new Vec3(0, 0, 0);
 
     const E = 0.000001;
 
-    // XYZ
-    const mSinY = m.get2(0,2);
-    if (mSinY > 1-E) {
-      const mSinXplusZ = m.get2(1,0);
-      const mCosXplusZ = m.get2(1,0);
-      const XplusZ = Math.atan2(-mSinXplusZ, -mCosXplusZ);
-      x = XplusZ;
-      y = Math.PI / 2;
-      z = 0;
-    } else if (mSinY < -1+E) {
-      const sinXminusZ = m.get2(1,0);
-      const cosXminusZ = m.get2(2,0);
-      const XminusZ = Math.atan2(sinXminusZ, cosXminusZ);
-      x = XminusZ;
-      y = -Math.PI/2;
-      z = 0;
+    const sinJ = Math.max(-1, Math.min(1, -sign * at(k,i)));
+    angles.elems[j] = Math.asin(sinJ);
+    if (Math.abs(sinJ) < 1-E) {
+      angles.elems[i] = Math.atan2(sign * at(k,j), at(k,k));
+      angles.elems[k] = Math.atan2(sign * at(j,i), at(i,i));
     } else {
-      y = -Math.asin(mSinY);
-      const cosY = Math.cos(y);
-
-      const sinXcosY = m.get2(1,2);
-      const cosXcosY = m.get2(2,2);
-      const sinX = sinXcosY / cosY;
-      const cosX = cosXcosY / cosY;
-      x = Math.atan2(sinX, cosX);
-
-      const cosYsinZ = m.get2(0,1);
-      const cosYcosZ = m.get2(0,0);
-      const sinZ = cosYsinZ / cosY;
-      const cosZ = cosYcosZ / cosY;
-      z = Math.atan2(sinZ, cosZ);
+      // Gimbal lock: the first and last rotations are around the same axis, so
+      // only their sum matters. We're free to pick the last one to be zero.
+      angles.elems[i] = Math.atan2(-sign * at(j,k), at(j,j));
+      angles.elems[k] = 0;
     }
 
-    // Below is YXZ (I used the wrong rotation convention at first, by mistake)
-    // Deriving this stuff is too much work so I can't be bothered to delete it.
-
-    // const mSinX = m.get2(2,1);
-    // if (mSinX > 1-E) {
-    //   const mSinYplusZ = m.get2(1,0);
-    //   const mCosYplusZ = m.get2(1,2);
-    //   const yPlusZ = Math.atan2(-mSinYplusZ, -mCosYplusZ);
-    //   x = -Math.PI/2;
-    //   y = yPlusZ;
-    //   z = 0;  // Free to choose. We take zero for simplicity.
-    // } else if (mSinX < -1+E) {
-    //   const sinYminusZ = m.get2(1,0);
-    //   const cosYminusZ = m.get2(1,2);
-    //   const yMinusZ = Math.atan2(sinYminusZ, cosYminusZ);
-    //   x = Math.PI/2;
-    //   y = yMinusZ;
-    //   z = 0;
-    // } else {
-    //   x = -Math.asin(mSinX);
-    //   const cosX = Math.cos(x);
-    //
-    //   const cosX_cosY = m.get2(2,2);
-    //   const cosX_sinY = m.get2(2,0);
-    //   const cosY = cosX_cosY / cosX;
-    //   const sinY = cosX_sinY / cosX;
-    //   y = Math.atan2(sinY, cosY);
-    //
-    //   const cosX_sinZ = m.get2(0,1);
-    //   const cosX_cosZ = m.get2(1,1);
-    //   const cosZ = cosX_cosZ / cosX;
-    //   const sinZ = cosX_sinZ / cosX;
-    //   z = Math.atan2(sinZ, cosZ);
-    // }
-
-    return new Vec3(x,y,z);
+    return angles;
   }
 
   public static determinant<U>(m: Matrix<U>) {
@@ -331,25 +385,56 @@ export class Matrix3 extends Matrix<N3> {
   }
 
   public static invert<U>(m: Matrix<U>): Matrix3 {
+    return Matrix3.invertInto(m, Matrix3.identity.clone());
+  }
+
+  // Note that this specific function is also meant to be safe with a Matrix4
+  public static invertInto<U>(m: Matrix<U>, out: Matrix<N3>): Matrix3 {
+    return Matrix3._invertInto(m, out, false);
+  }
+
+  public static getTransformForNormals<U>(m: Matrix<U>): Matrix3 {
+    return Matrix3.getTransformForNormalsInto(m, Matrix3.identity.clone());
+  }
+
+  // This is the transpose of the inverse (which is the same as the inverse of
+  // the transpose).
+  public static getTransformForNormalsInto<U>(
+    m: Matrix<U>, out: Matrix<N3>
+  ): Matrix3 {
+    return Matrix3._invertInto(m, out, true);
+  }
+
+  static _invertInto<U>(
+    m: Matrix<U>, out: Matrix<N3>, transpose: boolean
+  ): Matrix3 {
     // See https://www.geeksforgeeks.org/inverse-of-3x3-matrix/
-    // Note that this specific function is also meant to be safe with a Matrix4
-    const adjoint = Matrix3.getAdjointMatrix(m);
+    // The adjoint matrix in column-major order (just like getAdjointMatrix).
+    // We keep it in local variables so that `out` is allowed to be `m`.
+    const f = Matrix3.cofactor;
+    const a0 = f(m,1,1, 2,2), a1 = f(m,2,1, 0,2), a2 = f(m,0,1, 1,2);
+    const a3 = f(m,1,2, 2,0), a4 = f(m,2,2, 0,0), a5 = f(m,0,2, 1,0);
+    const a6 = f(m,1,0, 2,1), a7 = f(m,2,0, 0,1), a8 = f(m,0,0, 1,1);
     const determinant =
-      adjoint.get2(0,0)*m.get2(0,0) +
-      adjoint.get2(0,1)*m.get2(1,0) +
-      adjoint.get2(0,2)*m.get2(2,0);
+      a0*m.get2(0,0) + a1*m.get2(1,0) + a2*m.get2(2,0);
     const inverseDeterminant = 1/determinant;
     console.assert(
       Number.isFinite(inverseDeterminant),
       "Matrix3.invert was run on a matrix that doesn't have an inverse!"
     );
-    // const adjoint = Matrix3.getAdjointMatrix(m);
-    adjoint.scalarMultInPlace(inverseDeterminant);
-    return adjoint;
-  }
 
-  public static getTransformForNormals<U>(m: Matrix<U>): Matrix3 {
-    return Matrix3.invert(m.transposed());
+    const e = out.elems;
+    const d = inverseDeterminant;
+    if (transpose) {
+      e[0] = a0*d; e[1] = a3*d; e[2] = a6*d;
+      e[3] = a1*d; e[4] = a4*d; e[5] = a7*d;
+      e[6] = a2*d; e[7] = a5*d; e[8] = a8*d;
+    } else {
+      e[0] = a0*d; e[1] = a1*d; e[2] = a2*d;
+      e[3] = a3*d; e[4] = a4*d; e[5] = a5*d;
+      e[6] = a6*d; e[7] = a7*d; e[8] = a8*d;
+    }
+    return out;
   }
 
   public static getAdjointMatrix<U>(m: Matrix<U>): Matrix3 {
@@ -398,6 +483,23 @@ export class Matrix3 extends Matrix<N3> {
 }
 
 
+// The parts of a 3D transform, as used by Matrix4.compose. The transform
+// first scales, then shears, then rotates and finally translates.
+export interface TransformParts3D {
+  translation: Vec3;
+  rotation: Vec3|Quat;
+  scale: Vec3;
+  // The XY, XZ and YZ shear factors (stored in x, y and z). For example, the XY
+  // factor is how much X changes when moving along Y.
+  shear?: Vec3;
+}
+
+export interface Decomposition3D extends TransformParts3D {
+  rotation: Quat;
+  shear: Vec3;
+  hasShear: boolean;
+}
+
 export class Matrix4 extends Matrix<N4> {
   public static readonly identity: Matrix4 = new Matrix4([
     1, 0, 0, 0,
@@ -406,6 +508,9 @@ export class Matrix4 extends Matrix<N4> {
     0, 0, 0, 1
   ], false);
 
+  // A scratch matrix for intermediate results in the `Into` functions.
+  static _scratch3: Matrix3 = Matrix3.identity.clone();
+
   public constructor(
     elems: [
       number,number,number,number,
@@ -415,16 +520,39 @@ export class Matrix4 extends Matrix<N4> {
     ],
     transpose = true
   ) {
-    super(new Array2D<number>(4, elems));
+    super(4, elems);
     if (transpose)
       this.transpose();
   }
 
   // Create a transformation that scales, rotates and translates.
-  public static TRS3D(translate: Vec3, euler: Vec3, scale: Vec3): Matrix4 {
-    return Matrix4.Translate3D(translate)
-      .mult(Matrix4.Rotate3D(euler))
-      .mult(Matrix4.Scale3D(scale));
+  // The rotation can either be Euler angles or a quaternion.
+  public static TRS3D(
+    translate: Vec3, rotation: Vec3|Quat, scale: Vec3, order = EulerOrder.XYZ
+  ): Matrix4 {
+    return Matrix4.TRS3DInto(
+      translate, rotation, scale, Matrix4.identity.clone(), order
+    );
+  }
+
+  public static TRS3DInto(
+    translate: Vec3, rotation: Vec3|Quat, scale: Vec3, out: Matrix<N4>,
+    order = EulerOrder.XYZ
+  ): Matrix4 {
+    // This is the same as `Translate3D * Rotate3D * Scale3D`.
+    const r = Matrix3.Rotate3DInto(rotation, Matrix4._scratch3, order);
+    for (let x = 0; x < 3; x++) {
+      const s = scale.elems[x];
+      out.set2(x, 0, r.get2(x,0) * s);
+      out.set2(x, 1, r.get2(x,1) * s);
+      out.set2(x, 2, r.get2(x,2) * s);
+      out.set2(x, 3, 0);
+    }
+    out.set2(3, 0, translate.x);
+    out.set2(3, 1, translate.y);
+    out.set2(3, 2, translate.z);
+    out.set2(3, 3, 1);
+    return out;
   }
 
   public static TranslateScale3D(translate: Vec3, scale: Vec3): Matrix4 {
@@ -446,13 +574,43 @@ export class Matrix4 extends Matrix<N4> {
     return Matrix4.TranslateScale3D(vec3(0), scale);
   }
 
-  public static Rotate3D(euler: Vec3): Matrix4 {
-    const rotation = Matrix3.Rotate3D(euler);
+  public static Rotate3D(
+    rotation: Vec3|Quat, order = EulerOrder.XYZ
+  ): Matrix4 {
+    const matrix = Matrix3.Rotate3DInto(rotation, Matrix4._scratch3, order);
     const result = Matrix4.identity.clone();
-    result.elems.overwrite_partially(rotation.elems);
+    Matrix4.setMatrix3(result, matrix);
     return result;
   }
 
+  // Create the transform of an object at `eye` whose -Z axis faces `target`,
+  // with its Y axis pointing up as much as possible. (Cameras & lights look
+  // along their -Z axis.)
+  // Note that this is *not* a view matrix, it's the camera's own transform. To
+  // get a view matrix, use `Matrix4.affineInvert` on the result.
+  public static LookAt(eye: Vec3, target: Vec3, up = vec3(0,1,0)): Matrix4 {
+    const E = 0.000001;
+    const back = eye.sub(target);
+    if (back.squareLength() < E*E)
+      return Matrix4.Translate3D(eye);
+    const z = back.normalized();
+
+    // If we're looking straight up or down then `up` is useless, so we pick
+    // another axis instead.
+    let x = Vec3.cross(up, z);
+    if (x.squareLength() < E*E)
+      x = Vec3.cross(Math.abs(z.z) < 0.9 ? vec3(0,0,1) : vec3(1,0,0), z);
+    x = Vec3.from(x.normalized());
+    const y = Vec3.cross(z, x);
+
+    return new Matrix4([
+      x.x,   x.y,   x.z,   0,
+      y.x,   y.y,   y.z,   0,
+      z.x,   z.y,   z.z,   0,
+      eye.x, eye.y, eye.z, 1
+    ], false);
+  }
+
   public static PerspectiveProjection(
     fovY: number, aspect: number, near: number, far: number
   ): Matrix4 {
@@ -470,6 +628,27 @@ export class Matrix4 extends Matrix<N4> {
     ], false);
   }
 
+  public static OrthographicProjection(
+    left: number, right: number,
+    bottom: number, top: number,
+    near: number, far: number
+  ): Matrix4 {
+    // See https://en.wikipedia.org/wiki/Orthographic_projection#Geometry
+    const x = 2 / (right-left);
+    const y = 2 / (top-bottom);
+    const z = -2 / (far-near);
+    const tx = -(right+left) / (right-left);
+    const ty = -(top+bottom) / (top-bottom);
+    const tz = -(far+near) / (far-near);
+
+    return new Matrix4([
+      x,  0,  0,  0,
+      0,  y,  0,  0,
+      0,  0,  z,  0,
+      tx, ty, tz, 1
+    ], false);
+  }
+
 
   public static setTranslation(m: Matrix4, tl: Vec3) {
     m.set2(3, 0, tl.x);
@@ -481,20 +660,209 @@ export class Matrix4 extends Matrix<N4> {
     return new Vec3(m.get2(3,0), m.get2(3,1), m.get2(3,2));
   }
 
+  // Split an affine transform into translation, rotation, scale and shear, such
+  // that Matrix4.compose gives back the same matrix.
+  // If the transform mirrors things, a single scale axis is made negative (the
+  // one that needs the least rotation), so a node that was imported with a
+  // scale of (-1,1,1) gets that scale back.
+  public static decompose(m: Matrix4): Decomposition3D {
+    // See https://en.wikipedia.org/wiki/QR_decomposition#Using_the_Gram%E2%80%93Schmidt_process
+    // The 3x3 part is split into an orthonormal matrix Q (whose columns are
+    // the axes) and an upper triangular matrix U (the shear & scale).
+    const E = 0.00001;
+    const columns = [0, 1, 2].map(x => Matrix3.column(m, x));
+    const found: (Vec3|null)[] = [null, null, null];
+    const orthonormalize = (v: Vec<N3>): Vec3|null => {
+      for (const previous of found)
+        if (previous)
+          v = v.sub(previous.mult(previous.dot(v)));
+      return v.length() > E ? Vec3.from(v.normalized()) : null;
+    };
+    for (let i = 0; i < 3; i++)
+      found[i] = orthonormalize(columns[i]);
+
+    // Degenerate columns (for example when their scale is zero) get any axis
+    // that's perpendicular to the other ones.
+    for (let i = 0; i < 3; i++) {
+      if (found[i])
+        continue;
+      const a = found[(i+1) % 3], b = found[(i+2) % 3];
+      if (a && b) {
+        found[i] = Vec3.cross(a, b);
+        continue;
+      }
+      for (let j = i; !found[i]; j++)
+        found[i] = orthonormalize(Matrix4._unitAxis(j));
+    }
+    const axes = found as Vec3[];
+
+    const u = axes.map(axis => columns.map(column => axis.dot(column)));
+
+    // The axes are mirrored, so we flip the one that points the most backwards.
+    if (Vec3.cross(axes[0], axes[1]).dot(axes[2]) < 0) {
+      let flipped = 0;
+      for (let i = 1; i < 3; i++)
+        if (axes[i].elems[i] < axes[flipped].elems[flipped])
+          flipped = i;
+      axes[flipped] = Vec3.from(axes[flipped].mult(-1));
+      u[flipped] = u[flipped].map(value => -value);
+    }
+
+    const scale = new Vec3(u[0][0], u[1][1], u[2][2]);
+    const shearFactor =
+      (value: number, s: number) => Math.abs(s) > E ? value / s : 0;
+    const shear = new Vec3(
+      shearFactor(u[0][1], scale.y),
+      shearFactor(u[0][2], scale.z),
+      shearFactor(u[1][2], scale.z)
+    );
+    const rotationMatrix = Matrix3.identity.clone();
+    axes.forEach((axis, x) => Matrix3.setColumn(rotationMatrix, x, axis));
+
+    return {
+      translation: Matrix4.getTranslation(m),
+      rotation: Quat.FromMatrix(rotationMatrix),
+      scale,
+      shear,
+      hasShear: shear.elems.some(value => Math.abs(value) > E),
+    };
+  }
+
+  // This is the inverse of Matrix4.decompose. The order is only used if the
+  // rotation is made of Euler angles.
+  public static compose(
+    parts: TransformParts3D, order = EulerOrder.XYZ
+  ): Matrix4 {
+    return Matrix4.composeInto(parts, Matrix4.identity.clone(), order);
+  }
+
+  public static composeInto(
+    parts: TransformParts3D, out: Matrix<N4>, order = EulerOrder.XYZ
+  ): Matrix4 {
+    const {translation, rotation, scale} = parts;
+    Matrix4.TRS3DInto(translation, rotation, scale, out, order);
+    if (!parts.shear)
+      return out;
+
+    // The shear goes between the rotation and the scale, so each column gets
+    // some of the previous rotated axes added to it. (TRS3DInto left the
+    // rotation in the scratch matrix.)
+    const r = Matrix4._scratch3;
+    const shear = parts.shear;
+    const add = (x: number, fromAxis: number, amount: number) => {
+      for (let y = 0; y < 3; y++)
+        out.set2(x, y, out.get2(x,y) + r.get2(fromAxis,y) * amount);
+    };
+    add(1, 0, shear.x * scale.y);
+    add(2, 0, shear.y * scale.z);
+    add(2, 1, shear.z * scale.z);
+    return out;
+  }
+
+  static _unitAxis(axis: number): Vec3 {
+    const result = new Vec3(0, 0, 0);
+    result.elems[axis % 3] = 1;
+    return result;
+  }
+
+  // Transform a position (this includes the translation).
+  public static transformPoint(m: Matrix4, point: Vec3): Vec3 {
+    const p = point;
+    return new Vec3(
+      m.get2(0,0)*p.x + m.get2(1,0)*p.y + m.get2(2,0)*p.z + m.get2(3,0),
+      m.get2(0,1)*p.x + m.get2(1,1)*p.y + m.get2(2,1)*p.z + m.get2(3,1),
+      m.get2(0,2)*p.x + m.get2(1,2)*p.y + m.get2(2,2)*p.z + m.get2(3,2)
+    );
+  }
+
+  // Transform a direction (this ignores the translation).
+  public static transformDirection(m: Matrix4, direction: Vec3): Vec3 {
+    const d = direction;
+    return new Vec3(
+      m.get2(0,0)*d.x + m.get2(1,0)*d.y + m.get2(2,0)*d.z,
+      m.get2(0,1)*d.x + m.get2(1,1)*d.y + m.get2(2,1)*d.z,
+      m.get2(0,2)*d.x + m.get2(1,2)*d.y + m.get2(2,2)*d.z
+    );
+  }
+
   public static setScaleWithoutRotation(m: Matrix4, s: Vec3) {
     m.set2(0, 0, s.x);
     m.set2(1, 1, s.y);
     m.set2(2, 2, s.z);
   }
 
+  // This works for any invertible matrix, including projection matrices. If you
+  // know that the matrix is affine (like most transforms), then
+  // `Matrix4.affineInvert` is faster.
+  public static invert(m: Matrix4): Matrix4 {
+    // Gauss-Jordan elimination with partial pivoting.
+    // See https://en.wikipedia.org/wiki/Gaussian_elimination#Finding_the_inverse_of_a_matrix
+    const a = m.clone();
+    const result = Matrix4.identity.clone();
+
+    for (let column = 0; column < 4; column++) {
+      // Find the row with the largest value in this column (for stability).
+      let pivot = column;
+      for (let y = column+1; y < 4; y++)
+        if (Math.abs(a.get2(column,y)) > Math.abs(a.get2(column,pivot)))
+          pivot = y;
+
+      const pivotValue = a.get2(column, pivot);
+      console.assert(
+        pivotValue !== 0,
+        "Matrix4.invert was run on a matrix that doesn't have an inverse!"
+      );
+
+      // Move the pivot row into place & scale it so the pivot becomes 1.
+      for (let x = 0; x < 4; x++) {
+        for (const matrix of [a, result]) {
+          const value = matrix.get2(x, pivot);
+          matrix.set2(x, pivot, matrix.get2(x, column));
+          matrix.set2(x, column, value / pivotValue);
+        }
+      }
+
+      // Eliminate this column from all the other rows.
+      for (let y = 0; y < 4; y++) {
+        const factor = a.get2(column, y);
+        if (y === column || factor === 0)
+          continue;
+        for (let x = 0; x < 4; x++) {
+          a.set2(x, y, a.get2(x,y) - factor*a.get2(x,column));
+          result.set2(x, y, result.get2(x,y) - factor*result.get2(x,column));
+        }
+      }
+    }
+
+    return result;
+  }
+
   public static affineInvert(m: Matrix4): Matrix4 {
+    return Matrix4.affineInvertInto(m, Matrix4.identity.clone());
+  }
+
+  public static affineInvertInto(m: Matrix4, out: Matrix<N4>): Matrix4 {
     console.assert(m.get2(3,3) === 1);
-    const inverse_mat3 = Matrix3.invert(m);
-    const inverse_translation =
-      inverse_mat3.transform(Matrix4.getTranslation(m).mult(-1));
-    const result = Matrix4.Translate3D(inverse_translation);
-    result.elems.overwrite_partially(inverse_mat3.elems);
-    return result;
+    const tx = m.get2(3,0), ty = m.get2(3,1), tz = m.get2(3,2);
+    const inverse = Matrix3.invertInto(m, Matrix4._scratch3);
+    Matrix4.setMatrix3(out, inverse);
+
+    // The inverse translation is `-(inverse * translation)`.
+    for (let y = 0; y < 3; y++) {
+      const value =
+        inverse.get2(0,y)*tx + inverse.get2(1,y)*ty + inverse.get2(2,y)*tz;
+      out.set2(3, y, -value);
+      out.set2(y, 3, 0);
+    }
+    out.set2(3, 3, 1);
+    return out;
+  }
+
+  // Overwrite the top-left 3x3 part of the matrix (the rotation & scale).
+  public static setMatrix3<U>(m: Matrix<N4>, m3: Matrix<U>) {
+    for (let x = 0; x < 3; x++)
+      for (let y = 0; y < 3; y++)
+        m.set2(x, y, m3.get2(x, y));
   }
 }
 
@@ -0,0 +1,131 @@
+import {vec3, Vec3} from "./vec.ts";
+import {Matrix4} from "./matrix.ts";
+import {AABB, BoundingSphere, Frustum, Plane, Ray3} from "./primitives.ts";
+
+describe("Ray3", () => {
+  test("intersectTriangle", () => {
+    const a = vec3(0,0,0), b = vec3(0,1,0), c = vec3(1,0,0);
+    const ray = new Ray3(vec3(0.25,0.25,2), vec3(0,0,-1));
+    const hit = ray.intersectTriangle(a, b, c)!;
+    expect(hit.distance).toBeCloseTo(2);
+    expect(hit.u).toBeCloseTo(0.25);
+    expect(hit.v).toBeCloseTo(0.25);
+
+    // a, b, c is clockwise when seen from +Z, so it's a front face from there.
+    expect(ray.intersectTriangle(a, b, c, true)).not.toBeNull();
+    expect(ray.intersectTriangle(a, c, b, true)).toBeNull();
+
+    expect(new Ray3(vec3(2,2,2), vec3(0,0,-1)).intersectTriangle(a,b,c))
+      .toBeNull();
+    expect(new Ray3(vec3(0.25,0.25,2), vec3(0,0,1)).intersectTriangle(a,b,c))
+      .toBeNull();
+  });
+
+  test("intersectAABB", () => {
+    const box = new AABB(vec3(-1), vec3(1));
+    expect(new Ray3(vec3(0,0,5), vec3(0,0,-1)).intersectAABB(box))
+      .toBeCloseTo(4);
+    expect(new Ray3(vec3(0), vec3(1,0,0)).intersectAABB(box)).toBe(0);
+    expect(new Ray3(vec3(0,3,5), vec3(0,0,-1)).intersectAABB(box)).toBeNull();
+    expect(new Ray3(vec3(0,0,5), vec3(0,0,1)).intersectAABB(box)).toBeNull();
+  });
+
+  test("intersectSphere & intersectPlane", () => {
+    const sphere = new BoundingSphere(vec3(0,0,-5), 1);
+    const ray = new Ray3(vec3(0), vec3(0,0,-1));
+    expect(ray.intersectSphere(sphere)).toBeCloseTo(4);
+    expect(new Ray3(vec3(0,2,0), vec3(0,0,-1)).intersectSphere(sphere))
+      .toBeNull();
+
+    const plane = Plane.FromPointAndNormal(vec3(0,0,-3), vec3(0,0,1));
+    expect(ray.intersectPlane(plane)).toBeCloseTo(3);
+  });
+
+  test("transform keeps distances", () => {
+    const box = new AABB(vec3(-1), vec3(1));
+    const toLocal = Matrix4.affineInvert(
+      Matrix4.TRS3D(vec3(0,0,-10), vec3(0,0,Math.PI/3), vec3(2))
+    );
+    const ray = new Ray3(vec3(0), vec3(0,0,-1));
+    // The box is scaled by two, so it starts at z = -8.
+    expect(ray.transform(toLocal).intersectAABB(box)).toBeCloseTo(8);
+  });
+});
+
+describe("AABB & BoundingSphere", () => {
+  test("FromPoints", () => {
+    const box = AABB.FromPoints([1,2,3, -1,0,5, 0,0,0]);
+    expect(box.min.equals(vec3(-1,0,0))).toBe(true);
+    expect(box.max.equals(vec3(1,2,5))).toBe(true);
+    expect(AABB.FromPoints([vec3(1), vec3(-1)]).size.equals(vec3(2)))
+      .toBe(true);
+    expect(AABB.FromPoints([]).isEmpty()).toBe(true);
+
+    const sphere = BoundingSphere.FromPoints([1,0,0, -1,0,0]);
+    expect(sphere.center.equals(vec3(0))).toBe(true);
+    expect(sphere.radius).toBeCloseTo(1);
+  });
+
+  test("intersections", () => {
+    const box = new AABB(vec3(0), vec3(1));
+    expect(box.intersectsAABB(new AABB(vec3(0.5), vec3(2)))).toBe(true);
+    expect(box.intersectsAABB(new AABB(vec3(1.5), vec3(2)))).toBe(false);
+    expect(box.intersectsSphere(new BoundingSphere(vec3(2,0.5,0.5), 1.1)))
+      .toBe(true);
+    expect(box.intersectsSphere(new BoundingSphere(vec3(2,2,2), 1)))
+      .toBe(false);
+  });
+
+  test("transform", () => {
+    const box = new AABB(vec3(-1), vec3(1));
+    const rotated = box.transform(Matrix4.Rotate3D(vec3(0, Math.PI/4, 0)));
+    expect(rotated.max.x).toBeCloseTo(Math.SQRT2);
+    expect(rotated.max.y).toBeCloseTo(1);
+
+    const moved = box.transform(Matrix4.TranslateScale3D(vec3(5), vec3(2)));
+    expect(moved.min.sub(vec3(3)).squareLength()).toBeLessThan(0.0001);
+
+    const sphere = new BoundingSphere(vec3(1,0,0), 1)
+      .transform(Matrix4.TranslateScale3D(vec3(0), vec3(1,3,1)));
+    expect(sphere.radius).toBeCloseTo(3);
+  });
+});
+
+describe("Frustum", () => {
+  test("FromMatrix", () => {
+    const projection = Matrix4.PerspectiveProjection(Math.PI/2, 1, 1, 100);
+    const frustum = Frustum.FromMatrix(projection);
+    expect(frustum.containsPoint(vec3(0,0,-10))).toBe(true);
+    expect(frustum.containsPoint(vec3(0,0,10))).toBe(false);
+    expect(frustum.containsPoint(vec3(0,0,-200))).toBe(false);
+    expect(frustum.containsPoint(vec3(20,0,-10))).toBe(false);
+
+    test_case(new AABB(vec3(-1,-1,-11), vec3(1,1,-9)), true);
+    test_case(new AABB(vec3(-1,-1,9), vec3(1,1,11)), false);
+    test_case(new AABB(vec3(5,-1,-6), vec3(15,1,-4)), true);  // Partially
+    test_case(new AABB(vec3(15,-1,-6), vec3(25,1,-4)), false);
+
+    expect(frustum.intersectsSphere(new BoundingSphere(vec3(0,0,-10), 1)))
+      .toBe(true);
+    expect(frustum.intersectsSphere(new BoundingSphere(vec3(0,0,10), 1)))
+      .toBe(false);
+
+    function test_case(box: AABB, expected: boolean) {
+      expect(frustum.intersectsAABB(box)).toBe(expected);
+    }
+  });
+
+  test("transform", () => {
+    const projection = Matrix4.PerspectiveProjection(Math.PI/2, 1, 1, 100);
+    const cameraToGlobal = Matrix4.Translate3D(vec3(0,0,50));
+    const globalToCamera = Matrix4.affineInvert(cameraToGlobal);
+    const a = Frustum.FromMatrix(projection.mult(globalToCamera));
+    const b = Frustum.FromMatrix(projection).transform(cameraToGlobal);
+
+    for (const point of [vec3(0,0,40), vec3(0,0,60), vec3(12,0,40)]) {
+      expect(a.containsPoint(point)).toBe(b.containsPoint(point));
+    }
+    expect(a.containsPoint(vec3(0,0,40))).toBe(true);
+    expect(a.containsPoint(new Vec3(0,0,60))).toBe(false);
+  });
+});
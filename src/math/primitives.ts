@@ -0,0 +1,473 @@
+import {Vec, Vec3, vec3} from "./vec";
+import {Matrix3, Matrix4} from "./matrix";
+
+// Geometric primitives (rays, planes, boxes, spheres & frusta) and the
+// intersection tests between them. These are the foundations for picking,
+// culling and collisions. Everything in here lives on the CPU.
+
+
+// Ray3
+
+export interface RayTriangleHit {
+  distance: number,
+  // Barycentric coordinates: the hit point is `a*(1-u-v) + b*u + c*v`.
+  u: number,
+  v: number
+}
+
+export class Ray3 {
+  public origin: Vec3;
+  public direction: Vec3;
+
+  public constructor(origin: Vec3, direction: Vec3) {
+    this.origin = origin;
+    this.direction = direction;
+  }
+
+  public static FromPoints(from: Vec3, to: Vec3): Ray3 {
+    return new Ray3(from, Vec3.from(to.sub(from).normalized()));
+  }
+
+  public clone(): Ray3 {
+    return new Ray3(Vec3.from(this.origin), Vec3.from(this.direction));
+  }
+
+  public at(distance: number): Vec3 {
+    return Vec3.from(this.origin.add(this.direction.mult(distance)));
+  }
+
+  // Note that the direction is not normalized again after the transformation.
+  // That way distances along the transformed ray are the same as distances
+  // along the original ray, which is handy for testing against a mesh in its
+  // local space.
+  public transform(m: Matrix4): Ray3 {
+    return new Ray3(
+      Matrix4.transformPoint(m, this.origin),
+      Matrix4.transformDirection(m, this.direction)
+    );
+  }
+
+
+  // Intersections
+  // These return the distance along the ray (in multiples of `direction`), or
+  // null if there is no intersection in front of the ray's origin.
+
+  public intersectPlane(plane: Plane): number|null {
+    const denominator = plane.normal.dot(this.direction);
+    if (Math.abs(denominator) < 1e-12)
+      return null;
+    const distance = -plane.distanceToPoint(this.origin) / denominator;
+    return (distance >= 0 ? distance : null);
+  }
+
+  public intersectSphere(sphere: BoundingSphere): number|null {
+    // Solve |origin + t*direction - center|² = radius² for t.
+    const offset = this.origin.sub(sphere.center);
+    const a = this.direction.dot(this.direction);
+    const b = offset.dot(this.direction);
+    const c = offset.dot(offset) - sphere.radius*sphere.radius;
+    const discriminant = b*b - a*c;
+    if (discriminant < 0)
+      return null;
+
+    const sqrt = Math.sqrt(discriminant);
+    const near = (-b - sqrt) / a;
+    const far = (-b + sqrt) / a;
+    if (far < 0)
+      return null;
+    return (near >= 0 ? near : 0);  // Zero if we start inside the sphere.
+  }
+
+  public intersectAABB(box: AABB): number|null {
+    // The slab method, see https://tavianator.com/2011/ray_box.html
+    let near = -Infinity;
+    let far = Infinity;
+
+    for (let i = 0; i < 3; i++) {
+      const origin = this.origin.elems[i];
+      const direction = this.direction.elems[i];
+      const min = box.min.elems[i];
+      const max = box.max.elems[i];
+
+      if (direction === 0) {
+        if (origin < min || origin > max)
+          return null;
+        continue;
+      }
+
+      let t1 = (min - origin) / direction;
+      let t2 = (max - origin) / direction;
+      if (t1 > t2)
+        [t1, t2] = [t2, t1];
+      near = Math.max(near, t1);
+      far = Math.min(far, t2);
+      if (near > far)
+        return null;
+    }
+
+    if (far < 0)
+      return null;
+    return (near >= 0 ? near : 0);  // Zero if we start inside the box.
+  }
+
+  public intersectTriangle(
+    a: Vec3, b: Vec3, c: Vec3, cullBackfaces = false
+  ): RayTriangleHit|null {
+    // Möller–Trumbore, see https://en.wikipedia.org/wiki/Möller–Trumbore_intersection_algorithm
+    const E = 1e-12;
+    const edge1 = b.sub(a);
+    const edge2 = c.sub(a);
+    const p = Vec3.cross(this.direction, edge2);
+    const determinant = edge1.dot(p);
+
+    // Note that this engine uses clockwise front faces, so a front face has a
+    // negative determinant here.
+    if (cullBackfaces ? determinant > -E : Math.abs(determinant) < E)
+      return null;
+
+    const inverseDeterminant = 1 / determinant;
+    const s = this.origin.sub(a);
+    const u = s.dot(p) * inverseDeterminant;
+    if (u < 0 || u > 1)
+      return null;
+
+    const q = Vec3.cross(s, edge1);
+    const v = this.direction.dot(q) * inverseDeterminant;
+    if (v < 0 || u + v > 1)
+      return null;
+
+    const distance = edge2.dot(q) * inverseDeterminant;
+    if (distance < 0)
+      return null;
+    return { distance, u, v };
+  }
+}
+
+
+// Plane
+
+// All points `p` on the plane satisfy `dot(normal, p) + constant = 0`.
+// Points on the side that the normal points towards have a positive distance.
+export class Plane {
+  public normal: Vec3;
+  public constant: number;
+
+  public constructor(normal: Vec3, constant: number) {
+    this.normal = normal;
+    this.constant = constant;
+  }
+
+  public static FromPointAndNormal(point: Vec3, normal: Vec3): Plane {
+    const n = Vec3.from(normal.normalized());
+    return new Plane(n, -n.dot(point));
+  }
+
+  // The normal is on the side from which a, b & c appear clockwise (just like
+  // the front face of a triangle in this engine).
+  public static FromPoints(a: Vec3, b: Vec3, c: Vec3): Plane {
+    const normal = Vec3.cross(c.sub(a), b.sub(a));
+    return Plane.FromPointAndNormal(a, normal);
+  }
+
+  public clone(): Plane {
+    return new Plane(Vec3.from(this.normal), this.constant);
+  }
+
+  public normalized(): Plane {
+    const length = this.normal.length();
+    return new Plane(Vec3.from(this.normal.div(length)), this.constant/length);
+  }
+
+  public distanceToPoint(point: Vec3): number {
+    return this.normal.dot(point) + this.constant;
+  }
+
+  public transform(m: Matrix4): Plane {
+    const normalMatrix = Matrix3.getTransformForNormals(m);
+    const plane = this.normalized();
+    const normal = Vec3.from(normalMatrix.transform(plane.normal));
+    const pointOnPlane = plane.normal.mult(-plane.constant);
+    const point = Matrix4.transformPoint(m, Vec3.from(pointOnPlane));
+    return Plane.FromPointAndNormal(point, normal);
+  }
+}
+
+
+// AABB
+
+// An axis-aligned bounding box. An empty box has a `min` of +Infinity and a
+// `max` of -Infinity, so that adding any point to it gives a correct result.
+export class AABB {
+  public min: Vec3;
+  public max: Vec3;
+
+  public constructor(min: Vec3, max: Vec3) {
+    this.min = min;
+    this.max = max;
+  }
+
+  public static empty(): AABB {
+    return new AABB(vec3(Infinity), vec3(-Infinity));
+  }
+
+  // The points can be a flat list of numbers (x,y,z, x,y,z, ...), which is the
+  // format of a "position" vertex buffer.
+  public static FromPoints(points: Vec3[]|ArrayLike<number>): AABB {
+    const box = AABB.empty();
+    if (Array.isArray(points) && points[0] instanceof Vec) {
+      for (const point of points as Vec3[])
+        box.expandByPoint(point);
+      return box;
+    }
+
+    const flat = points as ArrayLike<number>;
+    const min = box.min.elems;
+    const max = box.max.elems;
+    for (let i = 0; i+2 < flat.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        const value = flat[i+axis];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    }
+    return box;
+  }
+
+  public clone(): AABB {
+    return new AABB(Vec3.from(this.min), Vec3.from(this.max));
+  }
+
+  public isEmpty(): boolean {
+    return this.min.x > this.max.x
+      || this.min.y > this.max.y
+      || this.min.z > this.max.z;
+  }
+
+  public get center(): Vec3 {
+    return Vec3.from(this.min.add(this.max).mult(0.5));
+  }
+
+  public get size(): Vec3 {
+    return Vec3.from(this.max.sub(this.min));
+  }
+
+  public getCorners(): Vec3[] {
+    const corners = [];
+    for (let i = 0; i < 8; i++) {
+      corners.push(new Vec3(
+        (i & 1 ? this.max.x : this.min.x),
+        (i & 2 ? this.max.y : this.min.y),
+        (i & 4 ? this.max.z : this.min.z)
+      ));
+    }
+    return corners;
+  }
+
+  public expandByPoint(point: Vec3) {
+    this.min = Vec3.from(Vec3.min(this.min, point));
+    this.max = Vec3.from(Vec3.max(this.max, point));
+  }
+
+  public union(b: AABB): AABB {
+    return new AABB(
+      Vec3.from(Vec3.min(this.min, b.min)),
+      Vec3.from(Vec3.max(this.max, b.max))
+    );
+  }
+
+  public containsPoint(point: Vec3): boolean {
+    return point.x >= this.min.x && point.x <= this.max.x
+      && point.y >= this.min.y && point.y <= this.max.y
+      && point.z >= this.min.z && point.z <= this.max.z;
+  }
+
+  public intersectsAABB(b: AABB): boolean {
+    return this.min.x <= b.max.x && this.max.x >= b.min.x
+      && this.min.y <= b.max.y && this.max.y >= b.min.y
+      && this.min.z <= b.max.z && this.max.z >= b.min.z;
+  }
+
+  public intersectsSphere(sphere: BoundingSphere): boolean {
+    const closest = Vec3.min(Vec3.max(sphere.center, this.min), this.max);
+    const squareDistance = closest.sub(sphere.center).squareLength();
+    return squareDistance <= sphere.radius*sphere.radius;
+  }
+
+  // This returns the box that encloses the transformed box, so rotating a box
+  // generally makes it grow a bit.
+  public transform(m: Matrix4): AABB {
+    if (this.isEmpty())
+      return AABB.empty();
+
+    // See "Transforming Axis-Aligned Bounding Boxes" by Jim Arvo.
+    const center = Matrix4.transformPoint(m, this.center);
+    const halfSize = this.size.mult(0.5);
+    const extent = vec3(0);
+    for (let y = 0; y < 3; y++)
+      for (let x = 0; x < 3; x++)
+        extent.elems[y] += Math.abs(m.get2(x,y)) * halfSize.elems[x];
+    return new AABB(
+      Vec3.from(center.sub(extent)), Vec3.from(center.add(extent))
+    );
+  }
+}
+
+
+// BoundingSphere
+
+export class BoundingSphere {
+  public center: Vec3;
+  public radius: number;
+
+  public constructor(center: Vec3, radius: number) {
+    this.center = center;
+    this.radius = radius;
+  }
+
+  public static empty(): BoundingSphere {
+    return new BoundingSphere(vec3(0), -1);
+  }
+
+  // The points can be a flat list of numbers (x,y,z, x,y,z, ...), which is the
+  // format of a "position" vertex buffer.
+  // This is not the smallest possible sphere, but it's cheap and close enough.
+  public static FromPoints(points: Vec3[]|ArrayLike<number>): BoundingSphere {
+    const box = AABB.FromPoints(points);
+    if (box.isEmpty())
+      return BoundingSphere.empty();
+
+    const center = box.center;
+    let squareRadius = 0;
+    if (Array.isArray(points) && points[0] instanceof Vec) {
+      for (const point of points as Vec3[])
+        squareRadius = Math.max(squareRadius, point.sub(center).squareLength());
+    } else {
+      const flat = points as ArrayLike<number>;
+      for (let i = 0; i+2 < flat.length; i += 3) {
+        const dx = flat[i] - center.x;
+        const dy = flat[i+1] - center.y;
+        const dz = flat[i+2] - center.z;
+        squareRadius = Math.max(squareRadius, dx*dx + dy*dy + dz*dz);
+      }
+    }
+    return new BoundingSphere(center, Math.sqrt(squareRadius));
+  }
+
+  public static FromAABB(box: AABB): BoundingSphere {
+    if (box.isEmpty())
+      return BoundingSphere.empty();
+    return new BoundingSphere(box.center, box.size.length() / 2);
+  }
+
+  public clone(): BoundingSphere {
+    return new BoundingSphere(Vec3.from(this.center), this.radius);
+  }
+
+  public isEmpty(): boolean {
+    return this.radius < 0;
+  }
+
+  public containsPoint(point: Vec3): boolean {
+    return point.sub(this.center).squareLength() <= this.radius*this.radius;
+  }
+
+  public intersectsSphere(b: BoundingSphere): boolean {
+    const radii = this.radius + b.radius;
+    return this.center.sub(b.center).squareLength() <= radii*radii;
+  }
+
+  // A non-uniform scale turns a sphere into an ellipsoid, so in that case we
+  // return the sphere that encloses the ellipsoid.
+  public transform(m: Matrix4): BoundingSphere {
+    if (this.isEmpty())
+      return BoundingSphere.empty();
+    const center = Matrix4.transformPoint(m, this.center);
+    const scale = Math.max(
+      Matrix3.column(m, 0).length(),
+      Matrix3.column(m, 1).length(),
+      Matrix3.column(m, 2).length()
+    );
+    return new BoundingSphere(center, this.radius * scale);
+  }
+}
+
+
+// Frustum
+
+// A frustum is the space in between six planes, which all have their normals
+// pointing inwards. Usually it's the space that a camera can see.
+export class Frustum {
+  public planes: Plane[];
+
+  public constructor(planes: Plane[]) {
+    this.planes = planes;
+  }
+
+  // Extract the frustum from a projection matrix (like a camera's
+  // `globalToClip`). The planes will be in the space that the matrix
+  // transforms *from*, so for `globalToClip` you get a frustum in global space.
+  public static FromMatrix(m: Matrix4): Frustum {
+    // See "Fast Extraction of Viewing Frustum Planes from the
+    // World-View-Projection Matrix" by Gil Gribb & Klaus Hartmann.
+    const row = (y: number) =>
+      [m.get2(0,y), m.get2(1,y), m.get2(2,y), m.get2(3,y)];
+    const w = row(3);
+    const plane = (r: number[], sign: number) => new Plane(
+      new Vec3(w[0] + sign*r[0], w[1] + sign*r[1], w[2] + sign*r[2]),
+      w[3] + sign*r[3]
+    ).normalized();
+
+    return new Frustum([
+      plane(row(0), 1),   // Left
+      plane(row(0), -1),  // Right
+      plane(row(1), 1),   // Bottom
+      plane(row(1), -1),  // Top
+      plane(row(2), 1),   // Near
+      plane(row(2), -1)   // Far
+    ]);
+  }
+
+  public clone(): Frustum {
+    return new Frustum(this.planes.map(plane => plane.clone()));
+  }
+
+  public transform(m: Matrix4): Frustum {
+    return new Frustum(this.planes.map(plane => plane.transform(m)));
+  }
+
+  public containsPoint(point: Vec3): boolean {
+    for (const plane of this.planes)
+      if (plane.distanceToPoint(point) < 0)
+        return false;
+    return true;
+  }
+
+  // This is conservative: it can return true for some boxes that are just
+  // outside of the frustum's corners, but never returns false for boxes that
+  // are (partially) inside.
+  public intersectsAABB(box: AABB): boolean {
+    if (box.isEmpty())
+      return false;
+    for (const plane of this.planes) {
+      // Take the corner that's furthest along the plane's normal.
+      const n = plane.normal;
+      const corner = new Vec3(
+        (n.x >= 0 ? box.max.x : box.min.x),
+        (n.y >= 0 ? box.max.y : box.min.y),
+        (n.z >= 0 ? box.max.z : box.min.z)
+      );
+      if (plane.distanceToPoint(corner) < 0)
+        return false;
+    }
+    return true;
+  }
+
+  public intersectsSphere(sphere: BoundingSphere): boolean {
+    if (sphere.isEmpty())
+      return false;
+    for (const plane of this.planes)
+      if (plane.distanceToPoint(sphere.center) < -sphere.radius)
+        return false;
+    return true;
+  }
+}
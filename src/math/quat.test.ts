@@ -0,0 +1,71 @@
+import {vec3, Vec3} from "./vec.ts";
+import {Matrix3} from "./matrix.ts";
+import {Quat} from "./quat.ts";
+import {EulerOrder} from "./euler.ts";
+
+describe("Quat", () => {
+  test("FromAxisAngle & rotate", () => {
+    const X = vec3(1,0,0), Y = vec3(0,1,0), Z = vec3(0,0,1);
+    test_case(Quat.FromAxisAngle(Y, Math.PI/2), vec3(1,0,0), vec3(0,0,-1));
+    test_case(Quat.FromAxisAngle(Z, Math.PI/2), vec3(1,0,0), vec3(0,1,0));
+    test_case(Quat.FromAxisAngle(X, Math.PI), vec3(0,1,2), vec3(0,-1,-2));
+    test_case(Quat.identity, vec3(1,2,3), vec3(1,2,3));
+
+    function test_case(q: Quat, input: Vec3, expected: Vec3) {
+      const squareError = q.rotate(input).sub(expected).squareLength();
+      expect(squareError).toBeLessThan(0.0001);
+    }
+  });
+
+  test("FromEuler matches Matrix3.Rotate3D", () => {
+    test_case(vec3(0, Math.PI/2, 0));
+    test_case(vec3(0.4, 1.2, 0.1));
+    test_case(vec3(-2, 0.3, 2.5));
+    test_case(vec3(-2, 0.3, 2.5), EulerOrder.YXZ);
+    test_case(vec3(0.4, 1.2, 0.1), EulerOrder.ZYX);
+
+    function test_case(euler: Vec3, order = EulerOrder.XYZ) {
+      const input = vec3(1,2,3);
+      const expected = Matrix3.Rotate3D(euler, order).transform(input);
+      const actual = Quat.FromEuler(euler, order).rotate(input);
+      expect(actual.sub(expected).squareLength()).toBeLessThan(0.0001);
+    }
+  });
+
+  test("FromMatrix & Rotate3D round trip", () => {
+    test_case(Quat.FromAxisAngle(vec3(1,1,0), 0.5));
+    test_case(Quat.FromAxisAngle(vec3(0,0,1), Math.PI));
+    test_case(Quat.FromAxisAngle(vec3(1,0,0), Math.PI*0.99));
+    test_case(Quat.FromEuler(vec3(-2, 0.3, 2.5)));
+
+    function test_case(q: Quat) {
+      const actual = Quat.FromMatrix(Matrix3.Rotate3D(q));
+      // `q` and `-q` are the same rotation.
+      expect(Math.abs(actual.dot(q))).toBeCloseTo(1);
+    }
+  });
+
+  test("mult", () => {
+    const a = Quat.FromAxisAngle(vec3(0,1,0), Math.PI/2);
+    const b = Quat.FromAxisAngle(vec3(1,0,0), Math.PI/2);
+    const input = vec3(0,1,0);
+    const expected = a.rotate(b.rotate(input));
+    const actual = a.mult(b).rotate(input);
+    expect(actual.sub(expected).squareLength()).toBeLessThan(0.0001);
+    expect(a.mult(a.inverse()).dot(Quat.identity)).toBeCloseTo(1);
+  });
+
+  test("slerp", () => {
+    const a = Quat.identity;
+    const b = Quat.FromAxisAngle(vec3(0,1,0), Math.PI/2);
+    const halfway = Quat.FromAxisAngle(vec3(0,1,0), Math.PI/4);
+    expect(Quat.slerp(a, b, 0).dot(a)).toBeCloseTo(1);
+    expect(Quat.slerp(a, b, 1).dot(b)).toBeCloseTo(1);
+    expect(Quat.slerp(a, b, 0.5).dot(halfway)).toBeCloseTo(1);
+
+    // Slerp should take the shortest path, even if `b` is flipped.
+    const flipped = new Quat(-b.x, -b.y, -b.z, -b.w);
+    expect(Math.abs(Quat.slerp(a, flipped, 0.5).dot(halfway))).toBeCloseTo(1);
+    expect(Quat.slerp(a, flipped, 0.5).length()).toBeCloseTo(1);
+  });
+});
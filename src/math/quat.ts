@@ -0,0 +1,192 @@
+import {N3, Vec, Vec3} from "./vec";
+import type {Matrix} from "./matrix";
+import {EulerOrder, getEulerAxes} from "./euler";
+
+// A rotation quaternion. The elements are stored in XYZW order, where W is the
+// real part (that's also the order in which glTF stores them).
+export class Quat {
+  elems: number[];
+
+  get x() { return this.elems[0]; }
+  get y() { return this.elems[1]; }
+  get z() { return this.elems[2]; }
+  get w() { return this.elems[3]; }
+  set x(value) { this.elems[0] = value; }
+  set y(value) { this.elems[1] = value; }
+  set z(value) { this.elems[2] = value; }
+  set w(value) { this.elems[3] = value; }
+
+
+  // Construct & clone
+
+  public constructor(x: number, y: number, z: number, w: number) {
+    this.elems = [x, y, z, w];
+  }
+
+  public static get identity(): Quat {
+    return new Quat(0, 0, 0, 1);
+  }
+
+  public clone(): Quat {
+    return new Quat(this.x, this.y, this.z, this.w);
+  }
+
+  public static FromAxisAngle(axis: Vec<N3>, radians: number): Quat {
+    const a = axis.normalized();
+    const sin = Math.sin(radians/2);
+    return new Quat(a.x*sin, a.y*sin, a.z*sin, Math.cos(radians/2));
+  }
+
+  // This uses the same convention as Matrix3.Rotate3D (by default: first
+  // pitch, then yaw, then roll).
+  public static FromEuler(euler: Vec<N3>, order = EulerOrder.XYZ): Quat {
+    const [first, second, third] = getEulerAxes(order).map(axis => {
+      const axisVector = new Vec3(0,0,0);
+      axisVector.elems[axis] = 1;
+      return Quat.FromAxisAngle(axisVector, euler.elems[axis]);
+    });
+    return third.mult(second.mult(first));
+  }
+
+  // The matrix should be a pure rotation matrix. If it might contain a scale,
+  // you should use Matrix3.changeToRotationMatrix on a copy of it first.
+  // Note that this function is also meant to be safe with a Matrix4.
+  public static FromMatrix<U>(m: Matrix<U>): Quat {
+    // See https://www.euclideanspace.com/maths/geometry/rotations/conversions/matrixToQuaternion/
+    const trace = m.get2(0,0) + m.get2(1,1) + m.get2(2,2);
+    let result;
+
+    if (trace > 0) {
+      const s = Math.sqrt(trace + 1) * 2;
+      result = new Quat(
+        (m.get2(1,2) - m.get2(2,1)) / s,
+        (m.get2(2,0) - m.get2(0,2)) / s,
+        (m.get2(0,1) - m.get2(1,0)) / s,
+        s / 4
+      );
+    } else if (m.get2(0,0) > m.get2(1,1) && m.get2(0,0) > m.get2(2,2)) {
+      const s = Math.sqrt(1 + m.get2(0,0) - m.get2(1,1) - m.get2(2,2)) * 2;
+      result = new Quat(
+        s / 4,
+        (m.get2(1,0) + m.get2(0,1)) / s,
+        (m.get2(2,0) + m.get2(0,2)) / s,
+        (m.get2(1,2) - m.get2(2,1)) / s
+      );
+    } else if (m.get2(1,1) > m.get2(2,2)) {
+      const s = Math.sqrt(1 + m.get2(1,1) - m.get2(0,0) - m.get2(2,2)) * 2;
+      result = new Quat(
+        (m.get2(1,0) + m.get2(0,1)) / s,
+        s / 4,
+        (m.get2(2,1) + m.get2(1,2)) / s,
+        (m.get2(2,0) - m.get2(0,2)) / s
+      );
+    } else {
+      const s = Math.sqrt(1 + m.get2(2,2) - m.get2(0,0) - m.get2(1,1)) * 2;
+      result = new Quat(
+        (m.get2(2,0) + m.get2(0,2)) / s,
+        (m.get2(2,1) + m.get2(1,2)) / s,
+        s / 4,
+        (m.get2(0,1) - m.get2(1,0)) / s
+      );
+    }
+
+    return result.normalized();
+  }
+
+
+  // Operations
+
+  // The resulting rotation first applies `b` and then applies `this`, just
+  // like multiplying two rotation matrices.
+  public mult(b: Quat): Quat {
+    const a = this;
+    return new Quat(
+      a.w*b.x + a.x*b.w + a.y*b.z - a.z*b.y,
+      a.w*b.y - a.x*b.z + a.y*b.w + a.z*b.x,
+      a.w*b.z + a.x*b.y - a.y*b.x + a.z*b.w,
+      a.w*b.w - a.x*b.x - a.y*b.y - a.z*b.z
+    );
+  }
+
+  public rotate(v: Vec<N3>): Vec3 {
+    // This is an optimized version of `q * v * conjugate(q)`.
+    // See https://fgiesen.wordpress.com/2019/02/09/rotating-a-single-vector-using-a-quaternion/
+    const u = new Vec3(this.x, this.y, this.z);
+    const t = Vec3.cross(u, v).mult(2);
+    const result = v.add(t.mult(this.w)).add(Vec3.cross(u, t));
+    return Vec3.from(result);
+  }
+
+  public conjugate(): Quat {
+    return new Quat(-this.x, -this.y, -this.z, this.w);
+  }
+
+  public inverse(): Quat {
+    const squareLength = this.dot(this);
+    return new Quat(
+      -this.x/squareLength, -this.y/squareLength, -this.z/squareLength,
+      this.w/squareLength
+    );
+  }
+
+  public dot(b: Quat): number {
+    return this.x*b.x + this.y*b.y + this.z*b.z + this.w*b.w;
+  }
+
+  public length(): number {
+    return Math.sqrt(this.dot(this));
+  }
+
+  public normalized(): Quat {
+    const length = this.length();
+    return new Quat(
+      this.x/length, this.y/length, this.z/length, this.w/length
+    );
+  }
+
+  public normalize() {
+    this.elems = this.normalized().elems;
+  }
+
+  public equals(b: Quat): boolean {
+    for (let i = 0; i < 4; i++)
+      if (this.elems[i] !== b.elems[i])
+        return false;
+    return true;
+  }
+
+  // Spherical linear interpolation. This always takes the shortest path.
+  public static slerp(a: Quat, b: Quat, t: number): Quat {
+    // See https://en.wikipedia.org/wiki/Slerp#Source_code
+    let cos = a.dot(b);
+    let end = b;
+
+    // `q` and `-q` are the same rotation, so we flip one of them if that makes
+    // the path shorter.
+    if (cos < 0) {
+      cos = -cos;
+      end = new Quat(-b.x, -b.y, -b.z, -b.w);
+    }
+
+    // If the quaternions are nearly the same, we just lerp to avoid dividing
+    // by zero.
+    if (cos > 0.9995)
+      return Quat._lerp(a, end, t).normalized();
+
+    const angle = Math.acos(cos);
+    const sin = Math.sin(angle);
+    const s0 = Math.sin((1-t) * angle) / sin;
+    const s1 = Math.sin(t * angle) / sin;
+    return new Quat(
+      a.x*s0 + end.x*s1, a.y*s0 + end.y*s1,
+      a.z*s0 + end.z*s1, a.w*s0 + end.w*s1
+    );
+  }
+
+  static _lerp(a: Quat, b: Quat, t: number): Quat {
+    return new Quat(
+      a.x + (b.x-a.x)*t, a.y + (b.y-a.y)*t,
+      a.z + (b.z-a.z)*t, a.w + (b.w-a.w)*t
+    );
+  }
+}
@@ -1,5 +1,7 @@
 export class Vec<T> {
-  elems: number[] = [0];
+  // Just like matrices, vectors store their elements in a Float32Array so they
+  // can be handed to OpenGL as-is.
+  elems: Float32Array;
 
   // This is never used, but it's here so that Typescript considers Vec2 as
   // being a different type than Vec3 (it makes their structures dissimilar).
@@ -34,23 +36,36 @@ export class Vec<T> {
 
   // Construct & clone
 
-  public constructor(elems: number[]) {
-    this.elems = elems;
+  public constructor(elems: ArrayLike<number>) {
+    this.elems =
+      (elems instanceof Float32Array ? elems : new Float32Array(elems));
   }
 
   public clone(): Vec<T> {
-    return new Vec<T>([...this.elems]);
+    return new Vec<T>(this.elems.slice());
+  }
+
+  public copyFrom(b: Vec<T>) {
+    this.elems.set(b.elems);
   }
 
   // Run an element-wise operation on two vectors, or a vector and a number.
   public join(b: Vec<T> | number, fn: (a:number,b:number)=>number): Vec<T> {
-    const result = [...this.elems];
+    const result = new Vec<T>(new Float32Array(this.elems.length));
+    return this.joinInto(b, fn, result);
+  }
+
+  // This is the same as `join`, but it writes the result into `out` instead of
+  // allocating a new vector. It's fine if `out` is `this` or `b`.
+  public joinInto(
+    b: Vec<T> | number, fn: (a:number,b:number)=>number, out: Vec<T>
+  ): Vec<T> {
     if (typeof(b) === "number")
       for (let i = 0; i < this.elems.length; i++)
-        result[i] = fn(this.elems[i], b);
+        out.elems[i] = fn(this.elems[i], b);
     else for (let i = 0; i < this.elems.length; i++)
-      result[i] = fn(this.elems[i], b.elems[i]);
-    return new Vec<T>(result);
+      out.elems[i] = fn(this.elems[i], b.elems[i]);
+    return out;
   }
 
 
@@ -66,7 +81,10 @@ export class Vec<T> {
   }
 
   public dot(b: Vec<T>): number {
-    return this.mult(b).elems.reduce((sum, value) => sum + value);
+    let sum = 0;
+    for (let i = 0; i < this.elems.length; i++)
+      sum += this.elems[i] * b.elems[i];
+    return sum;
   }
 
   public equals(b: Vec<T>): boolean {
@@ -112,7 +130,7 @@ export type Vec3Tuple = [number, number, number];
 
 export class Vec2 extends Vec<N2> {
   public constructor(x: number, y: number) {
-    super([x, y]);
+    super(Float32Array.of(x, y));
   }
 
   public static from(obj: {x: number, y: number} | Vec2Tuple): Vec2 {
@@ -132,7 +150,7 @@ export class Vec2 extends Vec<N2> {
 
 export class Vec3 extends Vec<N3> {
   public constructor(x: number, y: number, z: number) {
-    super([x, y, z]);
+    super(Float32Array.of(x, y, z));
   }
 
   public static from(obj: {x: number, y: number, z: number} | Vec3Tuple): Vec3 {
@@ -144,11 +162,19 @@ export class Vec3 extends Vec<N3> {
   public static Random(): Vec3 {
     return new Vec3(Math.random(), Math.random(), Math.random());
   }
+
+  public static cross(a: Vec<N3>, b: Vec<N3>): Vec3 {
+    return new Vec3(
+      a.y*b.z - a.z*b.y,
+      a.z*b.x - a.x*b.z,
+      a.x*b.y - a.y*b.x
+    );
+  }
 }
 
 export class Vec4 extends Vec<N4> {
   public constructor(x: number, y: number, z: number, w: number) {
-    super([x, y, z, w]);
+    super(Float32Array.of(x, y, z, w));
   }
 }
 
@@ -0,0 +1,588 @@
+import {
+  GL, Geometry, Material, Mesh, Node, Shader, Submesh, bindMachine,
+  canvasSize, finishDrawing, startDrawing
+} from "./core.ts";
+import {
+  Camera3D, CameraProjection, MeshNode3D, Node3D, SceneTree3D
+} from "./3D.ts";
+import {initFakeGraphics} from "../../test/fake_gl.ts";
+import {Matrix4} from "../math/matrix.ts";
+import {vec2, vec3, Vec3} from "../math/vec.ts";
+import {Ray3} from "../math/primitives.ts";
+import {EulerOrder} from "../math/euler.ts";
+import {Signal} from "../util/signal.ts";
+
+initFakeGraphics();
+
+const shader = new Shader("", "");
+
+// A triangle with its corners at the offset, one unit up and one unit right.
+function createTriangleGeometry(offset = vec3(0)): Geometry {
+  const {x, y, z} = offset;
+  return Geometry.from(3,
+    ["position", GL.FLOAT_VEC3, [x,y,z,  x,y+1,z,  x+1,y,z]]
+  );
+}
+
+// A mesh with a triangle for each offset.
+function createTriangles(...offsets: Vec3[]): Mesh {
+  return new Mesh(offsets.map(offset => new Submesh(
+    createTriangleGeometry(offset), new Material(shader)
+  )));
+}
+
+describe("Node3D", () => {
+  test("onTransformChanged is emitted for every change", () => {
+    const tree = new SceneTree3D();
+    const parent = new Node3D("parent");
+    const child = new Node3D("child");
+    // Node3Ds below other kinds of nodes follow their closest Node3D ancestor.
+    const group = new Node("group");
+    const grandchild = new Node3D("grandchild");
+    tree.root.addChild(parent);
+    parent.addChild(child);
+    child.addChild(group);
+    group.addChild(grandchild);
+
+    let emitted = 0, redraws = 0;
+    grandchild.onTransformChanged.connect(() => emitted++);
+    tree.onRedrawRequested.connect(() => redraws++);
+    // Nobody reads the global transforms in between, so the branch is still
+    // outdated after the first change.
+    for (let i = 1; i <= 3; i++)
+      parent.position = vec3(i, 0, 0);
+    expect(emitted).toBe(3);
+    expect(redraws).toBe(3);
+    expect(grandchild.globalPosition.equals(vec3(3, 0, 0))).toBe(true);
+  });
+
+  test("Listeners read up-to-date global transforms", () => {
+    const parent = new Node3D("parent");
+    const child = new Node3D("child");
+    parent.addChild(child);
+    child.position = vec3(0, 1, 0);
+
+    const positions: number[] = [];
+    child.onTransformChanged.connect(() => {
+      positions.push(child.globalPosition.x);
+    });
+    parent.position = vec3(1, 0, 0);
+    parent.position = vec3(2, 0, 0);
+    expect(positions).toEqual([1, 2]);
+  });
+
+  test("Branches without listeners are skipped", () => {
+    const root = new Node3D("root");
+    const group = new Node("group");
+    const child = new Node3D("child");
+    root.addChild(group);
+    group.addChild(child);
+    const emit = jest.spyOn(Signal.prototype, "emit");
+
+    root.position = vec3(1, 0, 0);
+    expect(emit).not.toHaveBeenCalled();
+
+    let moved = 0;
+    const disconnect = child.onTransformChanged.connect(() => moved++);
+    root.position = vec3(2, 0, 0);
+    expect(moved).toBe(1);
+    disconnect();
+    emit.mockClear();
+    root.position = vec3(3, 0, 0);
+    expect(emit).not.toHaveBeenCalled();
+
+    // Listeners in branches that are added later count as well, until the
+    // branch is removed again.
+    const added = new Node3D("added");
+    added.onTransformChanged.connect(() => moved++);
+    const addedGroup = new Node("addedGroup");
+    addedGroup.addChild(added);
+    group.addChild(addedGroup);
+    root.position = vec3(4, 0, 0);
+    expect(moved).toBe(3);
+    addedGroup.remove();
+    emit.mockClear();
+    root.position = vec3(5, 0, 0);
+    expect(emit).not.toHaveBeenCalled();
+    emit.mockRestore();
+  });
+});
+
+describe("Node3D.clone", () => {
+  test("Transforms", () => {
+    const node = new Node3D("node");
+    node.position = vec3(1, 2, 3);
+    node.eulerOrder = EulerOrder.ZYX;
+    node.addChild(new Node3D("child"));
+    (node.children[0] as Node3D).position = vec3(0, 1, 0);
+
+    const copy = node.clone();
+    expect(copy.transform.elems).toEqual(node.transform.elems);
+    expect(copy.eulerOrder).toBe(EulerOrder.ZYX);
+    const child = copy.children[0] as Node3D;
+    expect(child).toBeInstanceOf(Node3D);
+    expect(child.globalPosition.equals(vec3(1, 3, 3))).toBe(true);
+    // Moving the copy doesn't move the original.
+    copy.position = vec3(0, 0, 0);
+    expect(node.position.equals(vec3(1, 2, 3))).toBe(true);
+  });
+
+  test("Meshes & cameras", () => {
+    const mesh = new Mesh([], "mesh");
+    const node = MeshNode3D.from(mesh, "node");
+    node.frustumCulled = false;
+    node.uniforms.set("color", GL.FLOAT_VEC3, vec3(1, 0, 0));
+    const copy = node.clone();
+    expect(copy).toBeInstanceOf(MeshNode3D);
+    expect(copy.mesh).toBe(mesh);
+    expect(copy.frustumCulled).toBe(false);
+    expect(copy.uniforms).not.toBe(node.uniforms);
+    expect(Array.from(copy.uniforms.uniforms.get("color")!.value as number[]))
+      .toEqual([1, 0, 0]);
+    const withMaterials = node.clone(true, {cloneMaterials: true});
+    expect(withMaterials.mesh).not.toBe(mesh);
+    expect(withMaterials.mesh!.name).toBe("mesh");
+
+    const camera = Camera3D.Orthographic({height: 4});
+    camera.cullMask = 2;
+    camera.isActive = false;
+    const cameraCopy = camera.clone();
+    expect(cameraCopy.projection).toBe(CameraProjection.ORTHOGRAPHIC);
+    expect(cameraCopy.opts).toEqual(camera.opts);
+    expect(cameraCopy.opts).not.toBe(camera.opts);
+    expect(cameraCopy.cullMask).toBe(2);
+    expect(cameraCopy.isActive).toBe(false);
+    expect(cameraCopy.cameraToClip.elems).toEqual(camera.cameraToClip.elems);
+  });
+});
+
+describe("Node3D bounds", () => {
+  test("Through a rotated & scaled hierarchy", () => {
+    const parent = new Node3D("parent");
+    parent.scale = vec3(2, 2, 2);
+    parent.eulerAngles = vec3(0, 0, Math.PI/2);
+    const group = new Node("group");
+    const child = MeshNode3D.from(createTriangles(vec3(0)), "child");
+    child.position = vec3(1, 0, 0);
+    parent.addChild(group);
+    group.addChild(child);
+
+    // The child's box is x ∈ [1, 2], y ∈ [0, 1] in the parent's space. The
+    // scale doubles that, and the rotation turns X into Y and Y into -X.
+    const bounds = parent.getGlobalBounds();
+    const expectVec = (actual: Vec3, expected: number[]) => {
+      for (let i = 0; i < 3; i++)
+        expect(actual.elems[i]).toBeCloseTo(expected[i]);
+    };
+    expectVec(bounds.min, [-2, 2, 0]);
+    expectVec(bounds.max, [0, 4, 0]);
+    // The parent itself has no mesh.
+    expect(parent.getGlobalBounds(false).isEmpty()).toBe(true);
+
+    // Rotated boxes are enclosed by a bigger box that's aligned to the axes.
+    parent.scale = vec3(1, 1, 1);
+    parent.eulerAngles = vec3(0, 0, Math.PI/4);
+    child.position = vec3(0, 0, 0);
+    const rotated = child.getGlobalBounds(false);
+    expectVec(rotated.min, [-Math.SQRT1_2, 0, 0]);
+    expectVec(rotated.max, [Math.SQRT1_2, Math.SQRT2, 0]);
+  });
+});
+
+describe("Camera3D", () => {
+  test("Switching between perspective & orthographic", () => {
+    const tree = new SceneTree3D();
+    const camera = Camera3D.Perspective({fovY: Math.PI/2});
+    tree.root.addChild(camera);
+    let redraws = 0;
+    tree.onRedrawRequested.connect(() => redraws++);
+    const uniform = () => Array.from(
+      tree.uniforms.uniforms.get("camera_to_clip")!.value as Float32Array
+    );
+
+    camera.setOrthographic({height: 4});
+    const orthographic =
+      Matrix4.OrthographicProjection(-2, 2, -2, 2, 0.1, 1000);
+    expect(camera.projection).toBe(CameraProjection.ORTHOGRAPHIC);
+    expect(camera.cameraToClip.elems).toEqual(orthographic.elems);
+    expect(tree.cameraToClip.elems).toEqual(orthographic.elems);
+    expect(uniform()).toEqual(Array.from(orthographic.elems));
+    expect(redraws).toBe(1);
+    expect(tree.needsRedraw).toBe(true);
+
+    // The new projection follows the aspect ratio as well.
+    tree.setAspectRatio(2);
+    const wide = Matrix4.OrthographicProjection(-4, 4, -2, 2, 0.1, 1000);
+    expect(tree.cameraToClip.elems).toEqual(wide.elems);
+
+    tree.draw();
+    redraws = 0;
+    camera.setPerspective({fovY: 1});
+    const perspective = Matrix4.PerspectiveProjection(1, 2, 0.1, 1000);
+    expect(camera.projection).toBe(CameraProjection.PERSPECTIVE);
+    expect(camera.cameraToClip.elems).toEqual(perspective.elems);
+    expect(uniform()).toEqual(Array.from(perspective.elems));
+    expect(redraws).toBe(1);
+    expect(tree.needsRedraw).toBe(true);
+  });
+});
+
+describe("Camera3D screen space", () => {
+  function expectNear(actual: Vec3, expected: Vec3) {
+    expect(actual.sub(expected).length()).toBeLessThan(1e-3);
+  }
+
+  // The cameras are at (0, 0, 5) and look down the Z axis, at a scene tree
+  // that has the canvas's aspect ratio.
+  function createCameras(): Camera3D[] {
+    const tree = new SceneTree3D();
+    tree.setAspectRatio(canvasSize.x / canvasSize.y);
+    const cameras = [
+      Camera3D.Perspective({fovY: Math.PI/2}),
+      Camera3D.Orthographic({height: 4})
+    ];
+    for (const camera of cameras) {
+      camera.position = vec3(0, 0, 5);
+      tree.root.addChild(camera);
+    }
+    return cameras;
+  }
+
+  test("World → screen → world", () => {
+    for (const camera of createCameras()) {
+      camera.position = vec3(1, 2, 8);
+      camera.eulerAngles = vec3(0.2, -0.4, 0.1);
+      for (const point of [vec3(1, 2, 0), vec3(-1, 0.5, 3), vec3(4, 4, -20)]) {
+        const screen = camera.worldToScreen(point);
+        expectNear(camera.screenToWorld(screen.xy, screen.z), point);
+      }
+    }
+
+    const [perspective, orthographic] = createCameras();
+    const center = vec3(canvasSize.x / 2, canvasSize.y / 2, 3);
+    expectNear(perspective.worldToScreen(vec3(0, 0, 2)), center);
+    expectNear(orthographic.worldToScreen(vec3(0, 0, 2)), center);
+    // Up is towards the top of the canvas.
+    expect(perspective.worldToScreen(vec3(0, 1, 2)).y)
+      .toBeLessThan(canvasSize.y / 2);
+  });
+
+  test("Rays for the center & the corners", () => {
+    const [perspective, orthographic] = createCameras();
+    const aspect = canvasSize.x / canvasSize.y;
+    const corners = [
+      [vec2(0, 0), vec3(-aspect, 1, -1)],
+      [vec2(canvasSize.x, 0), vec3(aspect, 1, -1)],
+      [vec2(0, canvasSize.y), vec3(-aspect, -1, -1)],
+      [canvasSize.clone(), vec3(aspect, -1, -1)],
+      [canvasSize.div(2), vec3(0, 0, -1)]
+    ] as const;
+
+    for (const [screen, offset] of corners) {
+      // Perspective rays start on the near plane, in the direction of the
+      // corner. With a field of view of 90°, the corners are one unit away
+      // from the center for every unit along the Z axis (times the aspect
+      // ratio horizontally).
+      const ray = perspective.screenToRay(screen);
+      expectNear(ray.origin, vec3(0, 0, 5).add(offset.mult(0.1)));
+      expectNear(ray.direction, offset.normalized());
+
+      // Orthographic rays all go straight ahead.
+      const orthographicRay = orthographic.screenToRay(screen);
+      const sideways = vec3(offset.x * 2, offset.y * 2, -0.1);
+      expectNear(orthographicRay.origin, vec3(0, 0, 5).add(sideways));
+      expectNear(orthographicRay.direction, vec3(0, 0, -1));
+    }
+  });
+});
+
+describe("SceneTree3D", () => {
+  test("Drawing another viewport doesn't need a redraw", () => {
+    const tree = new SceneTree3D();
+    const camera = Camera3D.Perspective();
+    camera.position = vec3(0, 0, 5);
+    tree.root.addChild(camera);
+    const otherCamera = Camera3D.Orthographic();
+    otherCamera.isActive = false;
+    otherCamera.position = vec3(0, 5, 0);
+    tree.root.addChild(otherCamera);
+    tree.root.addChild(MeshNode3D.from(createTriangles(vec3(0)), "triangle"));
+    const globalToClip = tree.globalToClip.clone();
+
+    let redraws = 0;
+    tree.onRedrawRequested.connect(() => redraws++);
+    for (let frame = 0; frame < 2; frame++) {
+      startDrawing();
+      tree.draw();
+      tree.draw({
+        camera: otherCamera,
+        viewport: {x: 0, y: 0, width: 200, height: 100}
+      });
+      finishDrawing();
+      expect(tree.needsRedraw).toBe(false);
+    }
+    expect(redraws).toBe(0);
+    expect(tree.globalToClip.elems).toEqual(globalToClip.elems);
+    expect(tree.drawIfNeeded()).toBe(false);
+
+    otherCamera.position = vec3(0, 6, 0);
+    expect(tree.needsRedraw).toBe(true);
+  });
+
+  test("Changes that only another viewport sees need a redraw", () => {
+    const tree = new SceneTree3D();
+    const camera = Camera3D.Perspective();
+    camera.position = vec3(0, 0, 5);
+    camera.cullMask = 1;
+    tree.root.addChild(camera);
+    // The other camera looks at a node that the active camera can't see,
+    // because it's both out of view and on another layer.
+    const otherCamera = Camera3D.Perspective();
+    otherCamera.isActive = false;
+    otherCamera.position = vec3(100, 0, 5);
+    otherCamera.cullMask = 2;
+    tree.root.addChild(otherCamera);
+    const node = MeshNode3D.from(createTriangles(vec3(100, 0, 0)));
+    node.layers = 2;
+    tree.root.addChild(node);
+
+    const drawFrame = (withOtherView: boolean) => {
+      startDrawing();
+      // The active camera is drawn last.
+      if (withOtherView) {
+        tree.draw({
+          camera: otherCamera,
+          viewport: {x: 0, y: 0, width: 200, height: 100}
+        });
+      }
+      tree.draw();
+      finishDrawing();
+      expect(tree.needsRedraw).toBe(false);
+    };
+    drawFrame(true);
+    node.uniforms.set("color", GL.FLOAT_VEC3, vec3(1, 0, 0));
+    expect(tree.needsRedraw).toBe(true);
+
+    // Once the other viewport isn't drawn anymore, its changes don't count.
+    drawFrame(true);
+    drawFrame(false);
+    node.uniforms.set("color", GL.FLOAT_VEC3, vec3(0, 1, 0));
+    expect(tree.needsRedraw).toBe(false);
+  });
+});
+
+describe("Visibility & layers", () => {
+  test("Hidden nodes & other layers aren't drawn", () => {
+    const tree = new SceneTree3D();
+    const camera = Camera3D.Perspective();
+    camera.position = vec3(0, 0, 5);
+    tree.root.addChild(camera);
+    const triangle = (name: string) =>
+      MeshNode3D.from(createTriangles(vec3(0)), name);
+    tree.root.addChild(triangle("shown"));
+    // Hiding a node also hides its children.
+    const hidden = triangle("hidden");
+    hidden.visible = false;
+    hidden.addChild(triangle("hiddenChild"));
+    tree.root.addChild(hidden);
+    // Layers aren't inherited though.
+    const otherLayer = triangle("otherLayer");
+    otherLayer.layers = 2;
+    otherLayer.addChild(triangle("otherLayerChild"));
+    tree.root.addChild(otherLayer);
+
+    const draw = (other?: Camera3D) => {
+      startDrawing();
+      tree.draw({camera: other});
+      finishDrawing();
+      return bindMachine.stats.drawCalls;
+    };
+    camera.cullMask = 1;
+    expect(draw()).toBe(2);
+    camera.cullMask = 1 | 2;
+    expect(draw()).toBe(3);
+    hidden.visible = true;
+    expect(draw()).toBe(5);
+
+    const otherCamera = Camera3D.Perspective();
+    otherCamera.isActive = false;
+    otherCamera.position = vec3(0, 0, 5);
+    otherCamera.cullMask = 2;
+    tree.root.addChild(otherCamera);
+    expect(draw(otherCamera)).toBe(1);
+  });
+});
+
+describe("Render queue", () => {
+  test("Sorting saves state changes", () => {
+    // Two shaders with two materials each, and the nodes alternate between
+    // all of them.
+    const shaders = [new Shader("", ""), new Shader("", "")];
+    const materials = [0, 1, 0, 1].map(i => new Material(shaders[i]));
+    const geometry = createTriangleGeometry();
+    const tree = new SceneTree3D();
+    const camera = Camera3D.Perspective();
+    camera.position = vec3(0, 0, 5);
+    tree.root.addChild(camera);
+    for (let i = 0; i < 16; i++) {
+      const material = materials[i % materials.length];
+      const mesh = new Mesh([new Submesh(geometry, material)]);
+      tree.root.addChild(MeshNode3D.from(mesh));
+    }
+
+    const drawFrame = (sort: boolean) => {
+      tree.sortRenderQueue = sort;
+      startDrawing();
+      tree.draw();
+      finishDrawing();
+      return {...bindMachine.stats};
+    };
+    // The first frame also binds whatever was bound before.
+    drawFrame(false);
+    const unsorted = drawFrame(false);
+    drawFrame(true);
+    const sorted = drawFrame(true);
+
+    expect(sorted.drawCalls).toBe(16);
+    expect(unsorted.drawCalls).toBe(16);
+    expect(unsorted.shaderSwitches).toBe(16);
+    expect(sorted.shaderSwitches).toBe(2);
+    expect(unsorted.materialBinds).toBe(16);
+    expect(sorted.materialBinds).toBe(4);
+    // The other nodes with the same material only need their own uniforms.
+    expect(sorted.partialMaterialBinds).toBe(12);
+    expect(sorted.shaderSwitches).toBeLessThan(unsorted.shaderSwitches);
+    expect(sorted.materialBinds).toBeLessThan(unsorted.materialBinds);
+  });
+});
+
+describe("Frustum culling", () => {
+  test("Nodes & submeshes outside of the view aren't drawn", () => {
+    const tree = new SceneTree3D();
+    const camera = Camera3D.Perspective();
+    camera.position = vec3(0, 0, 5);
+    tree.root.addChild(camera);
+    // Only the first triangle of this mesh is in view.
+    const partly = MeshNode3D.from(
+      createTriangles(vec3(0), vec3(100, 0, 0), vec3(0, 100, 0))
+    );
+    const outside = MeshNode3D.from(createTriangles(vec3(0, 0, -2000)));
+    tree.root.addChild(partly);
+    tree.root.addChild(outside);
+
+    const draw = () => {
+      startDrawing();
+      tree.draw();
+      finishDrawing();
+      return bindMachine.stats.drawCalls;
+    };
+    expect(draw()).toBe(1);
+    expect(tree.culledNodeCount).toBe(1);
+
+    partly.frustumCulled = false;
+    outside.frustumCulled = false;
+    expect(draw()).toBe(4);
+    expect(tree.culledNodeCount).toBe(0);
+  });
+
+  test("Meshes whose submeshes are all outside of the view", () => {
+    const tree = new SceneTree3D();
+    const camera = Camera3D.Perspective();
+    camera.position = vec3(0, 0, 5);
+    tree.root.addChild(camera);
+    // The sphere around the whole mesh is in view, but the submeshes aren't.
+    const node = MeshNode3D.from(
+      createTriangles(vec3(-100, 0, 0), vec3(100, 0, 0))
+    );
+    tree.root.addChild(node);
+
+    for (let frame = 0; frame < 2; frame++)
+      tree.drawIfNeeded();
+    expect(bindMachine.stats.drawCalls).toBe(0);
+    expect(tree.culledNodeCount).toBe(1);
+    expect(tree.needsRedraw).toBe(false);
+    // The node's uniforms are never bound, so changing them doesn't need a
+    // redraw either.
+    node.uniforms.set("color", GL.FLOAT_VEC3, vec3(1, 0, 0));
+    expect(tree.drawIfNeeded()).toBe(false);
+
+    camera.position = vec3(100, 0, 5);
+    expect(tree.drawIfNeeded()).toBe(true);
+    expect(bindMachine.stats.drawCalls).toBe(1);
+    expect(tree.needsRedraw).toBe(false);
+  });
+});
+
+describe("Raycasting", () => {
+  function createScene() {
+    Geometry.keepCpuCopies = true;
+    const tree = new SceneTree3D();
+    const near = MeshNode3D.from(createTriangles(vec3(0)), "near");
+    const far = MeshNode3D.from(createTriangles(vec3(0)), "far");
+    near.position = vec3(0, 0, 1);
+    far.position = vec3(0, 0, -1);
+    // The far triangle is scaled so that it's hit in another place.
+    far.scale = vec3(2);
+    tree.root.addChild(near);
+    tree.root.addChild(far);
+    Geometry.keepCpuCopies = false;
+    return {tree, near, far};
+  }
+
+  test("Hits", () => {
+    const {tree, near, far} = createScene();
+    const ray = new Ray3(vec3(0.25, 0.5, 5), vec3(0, 0, -1));
+    const hits = tree.raycast(ray);
+    expect(hits.map(hit => hit.node)).toEqual([near, far]);
+
+    const [hit, farHit] = hits;
+    expect(hit.distance).toBeCloseTo(4);
+    expect(hit.point.sub(vec3(0.25, 0.5, 1)).length()).toBeLessThan(1e-6);
+    expect(hit.triangleIndex).toBe(0);
+    expect(hit.submesh).toBe(near.mesh!.submeshes[0]);
+    // The corners are at (0,0), (0,1) and (1,0).
+    expect(hit.barycentric.sub(vec3(0.25, 0.5, 0.25)).length())
+      .toBeLessThan(1e-6);
+    // The triangle is clockwise when seen from +Z, so it faces the ray.
+    expect(hit.normal.sub(vec3(0, 0, 1)).length()).toBeLessThan(1e-6);
+    expect(farHit.distance).toBeCloseTo(6);
+    expect(farHit.barycentric.sub(vec3(0.625, 0.25, 0.125)).length())
+      .toBeLessThan(1e-6);
+  });
+
+  test("Misses & options", () => {
+    const {tree, near, far} = createScene();
+    const ray = new Ray3(vec3(0.25, 0.5, 5), vec3(0, 0, -1));
+    expect(tree.raycast(new Ray3(vec3(5, 5, 5), vec3(0, 0, -1)))).toEqual([]);
+    expect(tree.raycast(new Ray3(vec3(0.25, 0.5, 5), vec3(0, 0, 1))))
+      .toEqual([]);
+    // The far triangle is bigger, so this only hits it.
+    const edge = new Ray3(vec3(1.5, 0.25, 5), vec3(0, 0, -1));
+    expect(tree.raycast(edge).map(hit => hit.node)).toEqual([far]);
+
+    expect(tree.raycast(ray, {maxDistance: 5}).map(hit => hit.node))
+      .toEqual([near]);
+    near.visible = false;
+    expect(tree.raycast(ray).map(hit => hit.node)).toEqual([far]);
+    expect(tree.raycast(ray, {includeInvisible: true})).toHaveLength(2);
+    near.visible = true;
+    far.layers = 2;
+    expect(tree.raycast(ray, {layers: 2}).map(hit => hit.node))
+      .toEqual([far]);
+    // From behind, the triangles face away from the ray.
+    const back = new Ray3(vec3(0.25, 0.5, -5), vec3(0, 0, 1));
+    expect(tree.raycast(back)).toHaveLength(2);
+    expect(tree.raycast(back, {cullBackfaces: true})).toEqual([]);
+  });
+
+  test("Geometry without CPU copies", () => {
+    const node = MeshNode3D.from(createTriangles(vec3(0)));
+    const geometry = node.mesh!.submeshes[0].geometry;
+    expect(geometry.positions).toBeNull();
+    expect(geometry.bounds.max.equals(vec3(1, 1, 0))).toBe(true);
+    const tree = new SceneTree3D();
+    tree.root.addChild(node);
+    const ray = new Ray3(vec3(0.25, 0.5, 5), vec3(0, 0, -1));
+    expect(tree.raycast(ray)).toEqual([]);
+  });
+});
@@ -1,26 +1,102 @@
 import {
   GL, bindMachine, addDefaultUniformSources,
   EnvironmentUniforms, InstanceUniforms, UniformSource,
-  SceneTree, Node, Drawable, Mesh
+  SceneTree, Node, Drawable, isDrawable, Mesh, Submesh, canvasSize,
+  CloneOptions, startDrawing, finishDrawing, Viewport, setViewport,
+  clearViewport, RenderQueue, frameCount
 } from "./core.ts";
-import {Matrix3, Matrix4} from "../math/matrix";
-import {Vec3} from "../math/vec";
+import {Matrix3, Matrix4, TransformParts3D} from "../math/matrix";
+import {Vec2, vec3, Vec3, vec4, Vec4} from "../math/vec";
+import {AABB, BoundingSphere, Frustum, Ray3} from "../math/primitives";
+import {Curve3} from "../math/curves";
+import {Quat} from "../math/quat";
+import {EulerOrder} from "../math/euler";
+import {Signal} from "../util/signal";
 
 
 // SceneTree3D
 
+// A cull mask that includes every render layer.
+export const ALL_LAYERS = 0xFFFFFFFF;
+
+export interface DrawOptions {
+  // Draw from this camera instead of the tree's active camera. The camera
+  // doesn't need to be active.
+  camera?: Camera3D,
+  // Only draw into this part of the canvas. Its depth is cleared first, and
+  // the camera uses its aspect ratio.
+  viewport?: Viewport,
+  // Clear the viewport (or the whole canvas) with this color first.
+  clearColor?: Vec4
+}
+
+// What a camera could see when the tree was drawn from it.
+interface DrawnView {
+  camera: Camera3D|null,
+  frustum: Frustum,
+  cullMask: number
+}
+
+export interface RaycastOptions {
+  // Only nodes on at least one of these layers are hit (all by default).
+  layers?: number,
+  // Hits further away than this are ignored.
+  maxDistance?: number,
+  // Only hit the front faces of triangles.
+  cullBackfaces?: boolean,
+  // Also hit nodes that are invisible.
+  includeInvisible?: boolean
+}
+
+export interface RaycastHit {
+  node: MeshNode3D,
+  submesh: Submesh,
+  // The index of the triangle in the submesh's geometry.
+  triangleIndex: number,
+  // The distance along the ray, in global units.
+  distance: number,
+  // The weights of the triangle's three corners at the hit point.
+  barycentric: Vec3,
+  // The hit point and the triangle's front face normal, in global space.
+  point: Vec3,
+  normal: Vec3
+}
+
 export class SceneTree3D implements SceneTree, Drawable {
   aspectRatio: number = 1;
   uniforms: EnvironmentUniforms = new EnvironmentUniforms();
   root: Node = new Node3D("root");
   extensions: any = {};
 
-  globalToCamera: Matrix4 = Matrix4.identity;
-  cameraToClip: Matrix4 = Matrix4.identity;
-  globalToClip: Matrix4 = Matrix4.identity;
+  globalToCamera: Matrix4 = Matrix4.identity.clone();
+  cameraToClip: Matrix4 = Matrix4.identity.clone();
+  globalToClip: Matrix4 = Matrix4.identity.clone();
+  cameraToGlobal: Matrix4 = Matrix4.identity.clone();
   camera3D?: Camera3D;
 
   beforeDrawing: (() => void)[] = [];
+  // Sorting the render queue saves a lot of binding. Turn it off to compare
+  // `bindMachine.stats`.
+  sortRenderQueue = true;
+  _renderQueue = new RenderQueue();
+  // This is emitted whenever `requestRedraw` is called, which is useful for
+  // anything else that depends on what the scene looks like.
+  readonly onRedrawRequested = new Signal();
+  // How many nodes were skipped by the last `draw` because they were outside
+  // of the camera's view.
+  culledNodeCount = 0;
+  _frustum = Frustum.FromMatrix(this.globalToClip);
+  // The camera that the tree is being drawn from (during `draw`).
+  _drawingCamera: Camera3D|null = null;
+  _needsRedraw = true;
+  // The cameras that the current frame was drawn from (by `frameCount`). Only
+  // changes that one of them can see need a redraw.
+  _drawnViews = new Map<Camera3D|null, DrawnView>();
+  _drawnViewsFrame = -1;
+  // The active camera's matrices are kept here while drawing from another
+  // camera.
+  _savedGlobalToCamera = Matrix4.identity.clone();
+  _savedCameraToClip = Matrix4.identity.clone();
 
 
   constructor() {
@@ -45,9 +121,17 @@ export class SceneTree3D implements SceneTree, Drawable {
   }
 
   setCameraMatrices(globalToCamera: Matrix4, cameraToClip: Matrix4) {
-    this.globalToCamera = globalToCamera;
-    this.cameraToClip = cameraToClip;
-    this.globalToClip = this.cameraToClip.mult(this.globalToCamera);
+    this._setCameraMatrices(globalToCamera, cameraToClip);
+    this.requestRedraw();
+  }
+
+  // This doesn't request a redraw, because drawing from another camera uses it
+  // to swap the matrices temporarily.
+  _setCameraMatrices(globalToCamera: Matrix4, cameraToClip: Matrix4) {
+    this.globalToCamera.copyFrom(globalToCamera);
+    this.cameraToClip.copyFrom(cameraToClip);
+    this.cameraToClip.multInto(this.globalToCamera, this.globalToClip);
+    Matrix4.affineInvertInto(this.globalToCamera, this.cameraToGlobal);
     this.uniforms.set("global_to_camera", GL.FLOAT_MAT4, this.globalToCamera);
     this.uniforms.set("camera_to_clip", GL.FLOAT_MAT4, this.cameraToClip);
     this.uniforms.set("global_to_clip", GL.FLOAT_MAT4, this.globalToClip);
@@ -56,17 +140,176 @@ export class SceneTree3D implements SceneTree, Drawable {
   setAspectRatio(aspectRatio: number) {
     this.aspectRatio = aspectRatio;
     this.camera3D?.updateCameraUniforms();
+    this.requestRedraw();
   }
 
-  draw() {
+
+  // Drawing on demand
+  // Moving, adding or removing nodes, changing uniforms and changing the
+  // camera all make the tree ask for a redraw. For anything else that changes
+  // what the scene looks like (for example when a texture finished loading),
+  // call `requestRedraw` yourself.
+
+  requestRedraw() {
+    this._needsRedraw = true;
+    this.onRedrawRequested.emit();
+  }
+
+  // Whether anything changed since the last time the tree was drawn.
+  get needsRedraw(): boolean {
+    if (this._needsRedraw || this.uniforms.hasChangedSinceLastBound)
+      return true;
+    for (const view of this._drawnViews.values())
+      if (this._hasBranchChanged(this.root, view))
+        return true;
+    return false;
+  }
+
+  // Unlike `draw`, this draws a whole frame (so it also clears the canvas),
+  // but only when something changed. Returns whether it drew anything.
+  drawIfNeeded(): boolean {
+    if (!this.needsRedraw)
+      return false;
+    startDrawing();
+    this.draw();
+    finishDrawing();
+    return true;
+  }
+
+  // Uniforms are only marked as unchanged when they're bound, so this skips
+  // the same nodes that `_drawBranch` skips for the view (including the ones
+  // that were outside of it last time).
+  _hasBranchChanged(node: Node, view: DrawnView): boolean {
+    if (!node.visible)
+      return false;
+    if (node instanceof MeshNode3D && (node.layers & view.cullMask)) {
+      const mesh = node._getDrawnMesh(view.camera);
+      if (
+        mesh && node._isMeshInFrustum(mesh, view.frustum) &&
+        node._hasChangedUniforms(mesh)
+      )
+        return true;
+    }
+    for (const child of node.children)
+      if (this._hasBranchChanged(child, view))
+        return true;
+    return false;
+  }
+
+  // By default this draws the whole canvas from the active camera. Call it
+  // several times with different options to draw several viewports, for
+  // example for picture-in-picture.
+  draw(opts: DrawOptions = {}) {
     for (const event of this.beforeDrawing)
       event();
+
+    const camera = opts.camera ?? this.camera3D;
+    this._drawingCamera = camera ?? null;
+    const viewport = opts.viewport ?? null;
+    const aspect =
+      (viewport ? viewport.width / viewport.height : this.aspectRatio);
+    const isOtherView =
+      !!camera && (camera !== this.camera3D || aspect !== this.aspectRatio);
+    if (isOtherView)
+      this._useCamera(camera, aspect);
+    if (viewport || opts.clearColor) {
+      setViewport(viewport);
+      clearViewport(opts.clearColor);
+    }
+
     bindMachine.setEnvironment(this.uniforms);
-    this.root.recursively(node => {  // @ts-expect-error
-      if (typeof(node.draw) === "function")  // @ts-expect-error
-        node.draw();
+    const cullMask = camera?.cullMask ?? ALL_LAYERS;
+    const queue = this._renderQueue;
+    this._frustum = Frustum.FromMatrix(this.globalToClip);
+    if (this._drawnViewsFrame !== frameCount) {
+      this._drawnViews.clear();
+      this._drawnViewsFrame = frameCount;
+    }
+    this._drawnViews.set(this._drawingCamera, {
+      camera: this._drawingCamera, frustum: this._frustum, cullMask
     });
+    this.culledNodeCount = 0;
+    this._drawBranch(this.root, cullMask);
+    if (this.sortRenderQueue)
+      queue.sort();
+    queue.draw();
+    queue.clear();
+
+    if (viewport)
+      setViewport(null);
+    if (isOtherView)
+      this._restoreCamera();
+    this._needsRedraw = false;
   };
+
+  // Temporarily sets the matrices of a camera that isn't the active one (or
+  // of the active camera with another aspect ratio).
+  _useCamera(camera: Camera3D, aspect: number) {
+    this._savedGlobalToCamera.copyFrom(this.globalToCamera);
+    this._savedCameraToClip.copyFrom(this.cameraToClip);
+    const globalToCamera =
+      Matrix4.affineInvertInto(camera._globalTransform, camera._globalToCamera);
+    this._setCameraMatrices(globalToCamera, camera.getCameraToClipFor(aspect));
+  }
+
+  _restoreCamera() {
+    this._setCameraMatrices(this._savedGlobalToCamera, this._savedCameraToClip);
+    // The restored matrices aren't bound anymore, so the bind machine has to
+    // bind them again next time. They didn't change though, so they don't make
+    // the tree need a redraw.
+    this.uniforms.hasChangedSinceLastBound = false;
+    bindMachine.environment = null;
+  }
+
+  // The distance between the camera and the origin of a global transform.
+  _getDistanceToCamera(localToGlobal: Matrix4): number {
+    const a = localToGlobal.elems;
+    const b = this.cameraToGlobal.elems;
+    return Math.hypot(a[12] - b[12], a[13] - b[13], a[14] - b[14]);
+  }
+
+  // Finds the triangles of MeshNode3Ds that the ray (in global space) hits,
+  // sorted by distance. Only geometry that was created while
+  // `Geometry.keepCpuCopies` was on can be hit. For clicking on things, use
+  // `camera.screenToRay` to get the ray.
+  raycast(ray: Ray3, opts: RaycastOptions = {}): RaycastHit[] {
+    const hits: RaycastHit[] = [];
+    this._raycastBranch(this.root, ray, opts, hits);
+    hits.sort((a, b) => a.distance - b.distance);
+    return hits;
+  }
+
+  _raycastBranch(
+    node: Node, ray: Ray3, opts: RaycastOptions, hits: RaycastHit[]
+  ) {
+    if (!node.visible && !opts.includeInvisible)
+      return;
+    const layers = opts.layers ?? ALL_LAYERS;
+    if (node instanceof MeshNode3D && (node.layers & layers))
+      node._raycast(ray, opts, hits);
+    for (const child of node.children)
+      this._raycastBranch(child, ray, opts, hits);
+  }
+
+  _drawBranch(node: Node, cullMask: number) {
+    // Invisible branches are skipped entirely.
+    if (!node.visible)
+      return;
+    // Parents come before their children, so this updates every outdated
+    // global transform exactly once.
+    if (node instanceof Node3D)
+      node._updateGlobalTransform();
+    // Nodes that can add their submeshes to the render queue do so. Other
+    // drawable nodes are drawn right away.
+    if (node.layers & cullMask) {
+      if (node instanceof MeshNode3D)
+        node.enqueue(this._renderQueue);
+      else if (isDrawable(node))
+        node.draw();
+    }
+    for (const child of node.children)
+      this._drawBranch(child, cullMask);
+  }
 }
 
 
@@ -74,14 +317,24 @@ export class SceneTree3D implements SceneTree, Drawable {
 
 export class Node3D extends Node {
   _transform: Matrix4;
-  _globalTransform: Matrix4;
+  _cachedGlobalTransform: Matrix4;
+  _isGlobalTransformDirty = false;
   _cachedEuler: Vec3|null = null;
   _cachedScale: Vec3|null = null;
+  _eulerOrder = EulerOrder.XYZ;
+  // How many listeners are connected to `onTransformChanged` of this node and
+  // its descendants, or null when that has to be counted again.
+  _transformListenerCount: number|null = null;
+
+  // This is emitted whenever the node's global transform changes, which also
+  // happens when one of its ancestors moves.
+  public readonly onTransformChanged: Signal =
+    new TransformChangedSignal(this);
 
   public constructor(name?: string) {
     super(name);
     this._transform = Matrix4.identity.clone();
-    this._globalTransform = Matrix4.identity.clone();
+    this._cachedGlobalTransform = Matrix4.identity.clone();
   }
 
   _setParent(node: Node) {
@@ -89,6 +342,14 @@ export class Node3D extends Node {
     this.afterTransformChanged();
   }
 
+  _cloneWithoutChildren(opts: CloneOptions): this {
+    const copy = super._cloneWithoutChildren(opts);
+    copy._transform.copyFrom(this._transform);
+    copy._eulerOrder = this._eulerOrder;
+    copy.afterTransformChanged();
+    return copy;
+  }
+
 
   // Position
 
@@ -114,24 +375,75 @@ export class Node3D extends Node {
 
   // Rotation
 
+  // The order in which `eulerAngles` and `globalEulerAngles` are applied.
+  // Changing it doesn't rotate the node, only how its angles are read.
+  public get eulerOrder(): EulerOrder {
+    return this._eulerOrder;
+  }
+
+  public set eulerOrder(order: EulerOrder) {
+    this._eulerOrder = order;
+    this._cachedEuler = null;
+  }
+
   public get eulerAngles(): Vec3 {
-    if (!this._cachedEuler)
-      this._cachedEuler = Matrix3.deriveEulerAngles3D(this._transform);
+    if (!this._cachedEuler) {
+      const rotation = Matrix3.RotateQuat3D(this.rotation);
+      this._cachedEuler =
+        Matrix3.deriveEulerAngles3D(rotation, this._eulerOrder);
+    }
     return this._cachedEuler;
   }
 
   public set eulerAngles(euler: Vec3) {
     this._cachedEuler = euler;
-    this._setTransform(Matrix4.TRS3D(this.position, euler, this.scale));
+    this._setParts({rotation: euler});
   }
 
   public get globalEulerAngles(): Vec3 {
-    return Matrix3.deriveEulerAngles3D(this._globalTransform);
+    const rotation = Matrix3.RotateQuat3D(this.globalRotation);
+    return Matrix3.deriveEulerAngles3D(rotation, this._eulerOrder);
   }
 
   public set globalEulerAngles(euler: Vec3) {
-    const matrix = Matrix4.TRS3D(this.globalPosition, euler, this.globalScale);
-    this._setGlobalTransform(matrix);
+    this._setGlobalParts({rotation: euler});
+  }
+
+  public get rotation(): Quat {
+    return Matrix4.decompose(this._transform).rotation;
+  }
+
+  public set rotation(rotation: Quat) {
+    // The Euler angles will be derived again when they're needed.
+    this._cachedEuler = null;
+    this._setParts({rotation});
+  }
+
+  public get globalRotation(): Quat {
+    return Matrix4.decompose(this._globalTransform).rotation;
+  }
+
+  public set globalRotation(rotation: Quat) {
+    this._setGlobalParts({rotation});
+  }
+
+
+  // Rotate the node so that its -Z axis faces the target (which is a global
+  // position). This keeps the node's global position & scale.
+  public lookAt(targetGlobalPosition: Vec3, up = vec3(0,1,0)) {
+    const rotation =
+      Matrix4.LookAt(this.globalPosition, targetGlobalPosition, up);
+    const scale = Matrix4.Scale3D(this.globalScale);
+    this._setGlobalTransform(rotation.mult(scale));
+  }
+
+  // Move the node to `u` along the curve (as a fraction of its length) and
+  // rotate it so that its -Z axis faces along the curve. This keeps the node's
+  // global scale.
+  public placeOnCurve(curve: Curve3, u: number, up = vec3(0,1,0)) {
+    const transform = curve.getTransformAt(u, up);
+    const scale = Matrix4.Scale3D(this.globalScale);
+    this._setGlobalTransform(transform.mult(scale));
   }
 
 
@@ -139,23 +451,21 @@ export class Node3D extends Node {
 
   public get scale(): Vec3 {
     if (!this._cachedScale)
-      this._cachedScale = Matrix3.deriveScale3D(this._transform);
+      this._cachedScale = Matrix4.decompose(this._transform).scale;
     return this._cachedScale;
   }
 
   public set scale(scale: Vec3) {
     this._cachedScale = scale;
-    this._setTransform(Matrix4.TRS3D(this.position, this.eulerAngles, scale));
+    this._setParts({scale});
   }
 
   public get globalScale(): Vec3 {
-    return Matrix3.deriveScale3D(this._globalTransform);
+    return Matrix4.decompose(this._globalTransform).scale;
   }
 
   public set globalScale(scale: Vec3) {
-    const matrix =
-      Matrix4.TRS3D(this.globalPosition, this.globalEulerAngles, scale);
-    this._setGlobalTransform(matrix);
+    this._setGlobalParts({scale});
   }
 
 
@@ -172,7 +482,22 @@ export class Node3D extends Node {
   }
 
   _setTransform(matrix: Matrix4) {
-    this._transform = matrix;
+    // We copy the matrix so that changing it afterwards won't affect the node.
+    if (matrix !== this._transform)
+      this._transform.copyFrom(matrix);
+    this.afterTransformChanged();
+  }
+
+  // Replace some parts of the transform, and keep the others (including the
+  // shear, if there's any) as they are.
+  _setParts(parts: Partial<TransformParts3D>) {
+    const current = Matrix4.decompose(this._transform);
+    // The cached Euler angles are more faithful than the decomposed rotation
+    // when the scale is zero along some axis.
+    const rotation = parts.rotation ?? this._cachedEuler ?? current.rotation;
+    Matrix4.composeInto(
+      {...current, ...parts, rotation}, this._transform, this._eulerOrder
+    );
     this.afterTransformChanged();
   }
 
@@ -186,6 +511,13 @@ export class Node3D extends Node {
     this._setGlobalTransform(matrix);
   }
 
+  _setGlobalParts(parts: Partial<TransformParts3D>) {
+    const current = Matrix4.decompose(this._globalTransform);
+    this._setGlobalTransform(
+      Matrix4.compose({...current, ...parts}, this._eulerOrder)
+    );
+  }
+
   _setGlobalTransform(matrix: Matrix4) {
     const parentTF =
       this.tryGetParentNode3D()?._globalTransform ?? Matrix4.identity;
@@ -193,16 +525,93 @@ export class Node3D extends Node {
     this.transform = inverseParentTF.mult(matrix);
   }
 
+  // Global transforms are only computed when they're needed, so this just
+  // marks the global transforms of the node and its descendants as outdated,
+  // and then tells all of them that they moved.
   public afterTransformChanged() {
-    // Update the global transform.
+    this._markGlobalTransformDirty();
+    this.tree?.requestRedraw?.();
+    this._emitTransformChanged();
+  }
+
+  // If the node is already outdated, then so are its descendants, and we don't
+  // need to visit them again.
+  _markGlobalTransformDirty() {
+    if (this._isGlobalTransformDirty)
+      return;
+    this._isGlobalTransformDirty = true;
+    forEachChild3D(this, child => child._markGlobalTransformDirty());
+  }
+
+  // Every descendant moved, but branches that nobody listens to are skipped.
+  // The listeners are only called after the whole branch is marked, so they
+  // always read up-to-date global transforms.
+  _emitTransformChanged() {
+    if (this._getTransformListenerCount() === 0)
+      return;
+    this.onTransformChanged.emit();
+    forEachChild3D(this, child => child._emitTransformChanged());
+  }
+
+  _getTransformListenerCount(): number {
+    if (this._transformListenerCount === null) {
+      let count = this.onTransformChanged._listeners.length;
+      forEachChild3D(this, child => {
+        count += child._getTransformListenerCount();
+      });
+      this._transformListenerCount = count;
+    }
+    return this._transformListenerCount;
+  }
+
+  // The counts of the ancestors are outdated too, unless they already were.
+  _afterBranchChanged() {
+    if (this._transformListenerCount === null)
+      return;
+    this._transformListenerCount = null;
+    super._afterBranchChanged();
+  }
+
+  // This always returns an up-to-date global transform. It isn't a copy, so it
+  // must not be changed.
+  get _globalTransform(): Matrix4 {
+    this._updateGlobalTransform();
+    return this._cachedGlobalTransform;
+  }
+
+  _updateGlobalTransform() {
+    if (!this._isGlobalTransformDirty)
+      return;
     const parent = this.tryGetParentNode3D();
-    this._globalTransform =
-      (parent ? parent._globalTransform.mult(this._transform) : this._transform.clone());
+    const global = this._cachedGlobalTransform;
+    if (parent)
+      parent._globalTransform.multInto(this._transform, global);
+    else global.copyFrom(this._transform);
+    this._isGlobalTransformDirty = false;
+  }
+
+
+  // Bounds
 
-    // Let this node's children update their global transform.
-    for (const child of this.children)
-      if (child instanceof Node3D)
-        child.afterTransformChanged();
+  // The node's own bounds in its local space. Only nodes with a mesh have any.
+  public getLocalBounds(): AABB {
+    return AABB.empty();
+  }
+
+  // A box in global space around the node, and around its descendants if
+  // `recursive` is true. It's empty if none of them have any bounds.
+  public getGlobalBounds(recursive = true): AABB {
+    if (!recursive)
+      return this.getLocalBounds().transform(this._globalTransform);
+    let bounds = AABB.empty();
+    this.recursively(node => {
+      if (node instanceof Node3D) {
+        const local = node.getLocalBounds();
+        if (!local.isEmpty())
+          bounds = bounds.union(local.transform(node._globalTransform));
+      }
+    });
+    return bounds;
   }
 
 
@@ -217,11 +626,52 @@ export class Node3D extends Node {
 }
 
 
+// Calls the callback for the closest Node3D descendants, so for the children
+// that are Node3Ds and for the Node3Ds below children that aren't.
+function forEachChild3D(node: Node, callback: (child: Node3D) => void) {
+  for (const child of node.children) {
+    if (child instanceof Node3D)
+      callback(child);
+    else forEachChild3D(child, callback);
+  }
+}
+
+
+// Tells the node when listeners connect or disconnect, so that it can keep
+// track of which branches have any.
+class TransformChangedSignal extends Signal {
+  _node: Node3D;
+
+  public constructor(node: Node3D) {
+    super();
+    this._node = node;
+  }
+
+  public connect(listener: () => void): () => void {
+    const disconnect = super.connect(listener);
+    this._node._afterBranchChanged();
+    return disconnect;
+  }
+
+  public disconnect(listener: () => void) {
+    super.disconnect(listener);
+    this._node._afterBranchChanged();
+  }
+}
+
+
 // MeshNode3D
 
 export class MeshNode3D extends Node3D implements Drawable {
-  public mesh: Mesh|null = null;
+  _mesh: Mesh|null = null;
   public uniforms: InstanceUniforms;
+  // Nodes outside of the camera's view aren't drawn. Turn this off for
+  // shaders that move vertices around, because then the mesh's bounds are
+  // wrong.
+  public frustumCulled = true;
+  // These are reused every frame so that drawing doesn't allocate anything.
+  _localToClip = Matrix4.identity.clone();
+  _normalLocalToGlobal = Matrix3.identity.clone();
 
   public constructor(name?: string) {
     super(name);
@@ -234,21 +684,169 @@ export class MeshNode3D extends Node3D implements Drawable {
     return result;
   }
 
+  _cloneWithoutChildren(opts: CloneOptions): this {
+    const copy = super._cloneWithoutChildren(opts);
+    copy.mesh =
+      (opts.cloneMaterials ? this.mesh?.clone(true) : this.mesh) ?? null;
+    copy.uniforms = this.uniforms.clone();
+    copy.frustumCulled = this.frustumCulled;
+    return copy;
+  }
+
+  public get mesh(): Mesh|null {
+    return this._mesh;
+  }
+
+  public set mesh(mesh: Mesh|null) {
+    this._mesh = mesh;
+    this.tree?.requestRedraw?.();
+  }
+
+  public getLocalBounds(): AABB {
+    return this.mesh?.bounds.clone() ?? AABB.empty();
+  }
+
+  // The mesh that was drawn the last time the tree was drawn from the camera.
+  _getDrawnMesh(_camera: Camera3D|null): Mesh|null {
+    return this.mesh;
+  }
+
+  // Whether the node's own uniforms or the mesh's materials were changed since
+  // they were last bound.
+  _hasChangedUniforms(mesh: Mesh): boolean {
+    if (this.uniforms.hasChangedSinceLastBound)
+      return true;
+    return mesh.submeshes.some(
+      submesh => submesh.material.hasChangedSinceLastBound
+    );
+  }
+
   public draw() {
     if (!this.mesh)
       return;
+    this._updateInstanceUniforms();
+    bindMachine.setInstanceUniforms(this.uniforms);
+    this.mesh.draw();
+  }
+
+  // Like `draw`, but the submeshes are drawn later (sorted by material).
+  public enqueue(queue: RenderQueue) {
+    if (this.mesh)
+      this._enqueueMesh(this.mesh, queue);
+  }
+
+  // Enqueues the mesh with this node's transform and uniforms, for subclasses
+  // that draw something else than `mesh`.
+  _enqueueMesh(mesh: Mesh, queue: RenderQueue) {
+    const tree = this.tree! as SceneTree3D;
+    const frustum = tree._frustum;
+    if (!this._isMeshInFrustum(mesh, frustum)) {
+      if (mesh.submeshes.length > 0)
+        tree.culledNodeCount++;
+      return;
+    }
+    this._updateInstanceUniforms();
+    const distance = tree._getDistanceToCamera(this._globalTransform);
+    // When the mesh is partly in view, its submeshes are culled separately.
+    const cullSubmeshes = this.frustumCulled && mesh.submeshes.length > 1;
+    for (const submesh of mesh.submeshes) {
+      const sphere = submesh.geometry.boundingSphere;
+      if (!cullSubmeshes || this._isSphereInFrustum(sphere, frustum))
+        queue.add(submesh, this.uniforms, distance);
+    }
+  }
+
+  _raycast(ray: Ray3, opts: RaycastOptions, hits: RaycastHit[]) {
+    const mesh = this.mesh;
+    if (!mesh)
+      return;
+    const localToGlobal = this._globalTransform;
+    const maxDistance = opts.maxDistance ?? Infinity;
+    const sphere = mesh.boundingSphere.transform(localToGlobal);
+    const sphereDistance = ray.intersectSphere(sphere);
+    if (
+      !sphere.isEmpty() &&
+      (sphereDistance === null || sphereDistance > maxDistance)
+    )
+      return;
+
+    // Distances along the local ray are the same as along the global ray.
+    const localRay = ray.transform(Matrix4.affineInvert(localToGlobal));
+    let normalLocalToGlobal: Matrix3|null = null;
+
+    for (const submesh of mesh.submeshes) {
+      const {positions, indices, bounds} = submesh.geometry;
+      if (!positions || localRay.intersectAABB(bounds) === null)
+        continue;
+      const count = indices?.length ?? positions.length / 3;
+      const corner = (i: number) => {
+        const index = 3 * (indices ? indices[i] : i);
+        return new Vec3(
+          positions[index], positions[index+1], positions[index+2]
+        );
+      };
+
+      for (let i = 0; i+2 < count; i += 3) {
+        const a = corner(i), b = corner(i+1), c = corner(i+2);
+        const hit = localRay.intersectTriangle(a, b, c, opts.cullBackfaces);
+        if (!hit || hit.distance > maxDistance)
+          continue;
+        // Front faces are clockwise.
+        const localNormal = Vec3.cross(c.sub(a), b.sub(a));
+        normalLocalToGlobal ??= Matrix3.getTransformForNormals(localToGlobal);
+        hits.push({
+          node: this,
+          submesh,
+          triangleIndex: i / 3,
+          distance: hit.distance,
+          barycentric: vec3(1 - hit.u - hit.v, hit.u, hit.v),
+          point: ray.at(hit.distance),
+          normal: Vec3.from(
+            normalLocalToGlobal.transform(localNormal).normalized()
+          )
+        });
+      }
+    }
+  }
+
+  // Whether `_enqueueMesh` would enqueue any of the mesh's submeshes. The
+  // instance uniforms are only bound when it does, so checking for changes
+  // has to skip the same meshes.
+  _isMeshInFrustum(mesh: Mesh, frustum: Frustum): boolean {
+    if (mesh.submeshes.length === 0)
+      return false;
+    if (!this.frustumCulled)
+      return true;
+    if (!this._isSphereInFrustum(mesh.boundingSphere, frustum))
+      return false;
+    if (mesh.submeshes.length === 1)
+      return true;
+    return mesh.submeshes.some(({geometry}) =>
+      this._isSphereInFrustum(geometry.boundingSphere, frustum)
+    );
+  }
+
+  // Takes a sphere in local space. Meshes and geometry without bounds are
+  // always considered visible.
+  _isSphereInFrustum(sphere: BoundingSphere, frustum: Frustum): boolean {
+    if (sphere.isEmpty())
+      return true;
+    return frustum.intersectsSphere(sphere.transform(this._globalTransform));
+  }
 
+  _updateInstanceUniforms() {
     const tree = this.tree! as SceneTree3D;
     const localToGlobal = this._globalTransform;
-    const localToClip = tree.globalToClip.mult(localToGlobal);
-    const normalLocalToGlobal = Matrix3.getTransformForNormals(localToGlobal);
+    const localToClip =
+      tree.globalToClip.multInto(localToGlobal, this._localToClip);
+    const normalLocalToGlobal = Matrix3.getTransformForNormalsInto(
+      localToGlobal, this._normalLocalToGlobal
+    );
     this.uniforms.set("local_to_global", GL.FLOAT_MAT4, localToGlobal);
     this.uniforms.set("local_to_clip", GL.FLOAT_MAT4, localToClip);
     this.uniforms.set(
       "normal_local_to_global", GL.FLOAT_MAT3, normalLocalToGlobal
     );
-    bindMachine.setInstanceUniforms(this.uniforms);
-    this.mesh.draw();
   }
 }
 
@@ -260,14 +858,55 @@ interface PerspectiveOptions {
   near?: number,
   far?: number
 }
-type CameraOptions = PerspectiveOptions;
+// Only one of `width` and `height` should be given. The other one follows from
+// the scene tree's aspect ratio.
+interface OrthographicOptions {
+  height?: number,
+  width?: number,
+  near?: number,
+  far?: number
+}
+type CameraOptions = PerspectiveOptions|OrthographicOptions;
+
+export enum CameraProjection { PERSPECTIVE, ORTHOGRAPHIC, CUSTOM }
 
 export class Camera3D extends Node3D {
-  public cameraToClip = Matrix4.identity;
+  public cameraToClip = Matrix4.identity.clone();
   public isActive = true;
+  _cullMask = ALL_LAYERS;
+  public projection = CameraProjection.CUSTOM;
   public opts: CameraOptions|null = null;
   oldAspect: number = 1;
   getCameraToClip?: (aspect: number) => Matrix4;
+  _globalToCamera = Matrix4.identity.clone();
+
+  public constructor(name?: string) {
+    super(name);
+    this.onEnterTree.connect(() => this.updateCameraUniforms());
+    this.onTransformChanged.connect(() => this.updateCameraUniforms());
+  }
+
+  _cloneWithoutChildren(opts: CloneOptions): this {
+    const copy = super._cloneWithoutChildren(opts);
+    copy.cameraToClip = this.cameraToClip.clone();
+    copy.isActive = this.isActive;
+    copy.cullMask = this.cullMask;
+    copy.projection = this.projection;
+    copy.opts = this.opts && {...this.opts};
+    copy.oldAspect = this.oldAspect;
+    copy.getCameraToClip = this.getCameraToClip;
+    return copy;
+  }
+
+  // Only nodes that are on at least one of these layers are drawn.
+  public get cullMask(): number {
+    return this._cullMask;
+  }
+
+  public set cullMask(cullMask: number) {
+    this._cullMask = cullMask;
+    this.tree?.requestRedraw?.();
+  }
 
   public static Perspective(opts?: PerspectiveOptions): Camera3D {
     const camera = new Camera3D("camera");
@@ -275,35 +914,116 @@ export class Camera3D extends Node3D {
     return camera;
   }
 
+  public static Orthographic(opts?: OrthographicOptions): Camera3D {
+    const camera = new Camera3D("camera");
+    camera.setOrthographic(opts);
+    return camera;
+  }
+
   public setPerspective(opts?: PerspectiveOptions) {
     opts ??= {};
     opts.fovY ??= 70 * Math.PI/180;
     opts.near ??= 0.1;
     opts.far ??= 1000;
-    this.opts = opts;
     this.setMatrix(
       a => Matrix4.PerspectiveProjection(opts.fovY!, a, opts.near!, opts.far!)
     );
+    this.opts = opts;
+    this.projection = CameraProjection.PERSPECTIVE;
+  }
+
+  public setOrthographic(opts?: OrthographicOptions) {
+    opts ??= {};
+    console.assert(
+      opts.width === undefined || opts.height === undefined,
+      "An orthographic camera should get either a width or a height, but not " +
+      "both. The other one is calculated from the aspect ratio."
+    );
+    if (opts.width === undefined)
+      opts.height ??= 2;
+    opts.near ??= 0.1;
+    opts.far ??= 1000;
+    this.setMatrix(a => {
+      const height = opts.height ?? opts.width! / a;
+      const width = opts.width ?? opts.height! * a;
+      return Matrix4.OrthographicProjection(
+        -width/2, width/2, -height/2, height/2, opts.near!, opts.far!
+      );
+    });
+    this.opts = opts;
+    this.projection = CameraProjection.ORTHOGRAPHIC;
   }
 
+  // This also works on a camera that's already in a scene tree, so you can
+  // freely switch between perspective & orthographic.
   public setMatrix(getCameraToClip: (aspect: number) => Matrix4) {
     const aspect = this.tree?.aspectRatio ?? 1;
     this.cameraToClip = getCameraToClip(aspect);
     this.getCameraToClip = getCameraToClip;
+    this.oldAspect = aspect;
+    this.opts = null;
+    this.projection = CameraProjection.CUSTOM;
+    this.updateCameraUniforms();
   }
 
-  public setActive(isActive: boolean) {
-    this.isActive = isActive;
-    this.updateCameraUniforms();
+  // Screen space
+  // Screen positions are in pixels on the canvas, with (0,0) in the top left
+  // corner (just like in CSS). The depth is the distance in front of the
+  // camera, so it's negative for things behind the camera.
+
+  public worldToScreen(globalPosition: Vec3): Vec3 {
+    const globalToCamera = Matrix4.affineInvert(this._globalTransform);
+    const cameraPosition =
+      Matrix4.transformPoint(globalToCamera, globalPosition);
+    const clip = this.cameraToClip.transform(vec4(cameraPosition, 1));
+    const ndc = clip.xy.div(clip.w);
+    return new Vec3(
+      (ndc.x * 0.5 + 0.5) * canvasSize.x,
+      (0.5 - ndc.y * 0.5) * canvasSize.y,
+      -cameraPosition.z
+    );
   }
 
-  public afterTransformChanged() {
-    super.afterTransformChanged();
-    this.updateCameraUniforms();
+  public screenToWorld(screenPosition: Vec2, depth: number): Vec3 {
+    const [near, far] = this._unprojectToCameraSpace(screenPosition);
+    // Find the point on the line from `near` to `far` at the right depth.
+    const t = (depth + near.z) / (near.z - far.z);
+    const cameraPosition = Vec3.from(near.add(far.sub(near).mult(t)));
+    return Matrix4.transformPoint(this._globalTransform, cameraPosition);
+  }
+
+  // The ray starts on the camera's near plane.
+  public screenToRay(screenPosition: Vec2): Ray3 {
+    const [near, far] = this._unprojectToCameraSpace(screenPosition);
+    const globalNear = Matrix4.transformPoint(this._globalTransform, near);
+    const globalFar = Matrix4.transformPoint(this._globalTransform, far);
+    return Ray3.FromPoints(globalNear, globalFar);
+  }
+
+  // Returns the points on the near plane & far plane that are underneath the
+  // given screen position.
+  _unprojectToCameraSpace(screenPosition: Vec2): [Vec3, Vec3] {
+    const clipToCamera = Matrix4.invert(this.cameraToClip);
+    const x = screenPosition.x / canvasSize.x * 2 - 1;
+    const y = 1 - screenPosition.y / canvasSize.y * 2;
+    const unproject = (z: number) => {
+      const result = clipToCamera.transform(vec4(x, y, z, 1));
+      return Vec3.from(result.xyz.div(result.w));
+    };
+    return [unproject(-1), unproject(1)];
+  }
+
+
+  // The projection for a viewport with the given aspect ratio. The camera's
+  // own projection is left alone.
+  public getCameraToClipFor(aspect: number): Matrix4 {
+    if (aspect === this.oldAspect || !this.getCameraToClip)
+      return this.cameraToClip;
+    return this.getCameraToClip(aspect);
   }
 
-  _setTree(tree: SceneTree | null) {
-    super._setTree(tree);
+  public setActive(isActive: boolean) {
+    this.isActive = isActive;
     this.updateCameraUniforms();
   }
 
@@ -320,7 +1040,8 @@ export class Camera3D extends Node3D {
     // Set the uniforms.
     const tree = (this.tree as SceneTree3D);
     console.assert(typeof tree.setCameraMatrices === "function");
-    const globalToCamera = Matrix4.affineInvert(this.globalTransform);
+    const globalToCamera =
+      Matrix4.affineInvertInto(this._globalTransform, this._globalToCamera);
     tree.setCameraMatrices(globalToCamera, this.cameraToClip);
     tree.camera3D = this;  // Also store the camera.
   }
@@ -195,6 +195,7 @@ export class BtocMeshReader {
     }
 
     let vertexCount = -1;
+    let positions: IntoBufferObject|null = null;
     const vertices = geometry.attributes.map(attribute => {
       const name = attribute[0];
       const bufferData = this.gatherVertexBufferData(geometryId, ...attribute);
@@ -211,11 +212,20 @@ export class BtocMeshReader {
         "same amount of vertices!"
       );
 
+      if (name === "position")
+        positions = bufferData;
       const buffer = VertexBuffer.from(bufferData);
       return [name, buffer] as [string, VertexBuffer];
     });
 
-    return new Geometry(vertexCount, vertices, indexCount, indices);
+    const result = new Geometry(vertexCount, vertices, indexCount, indices);
+    if (indexList)
+      result.keepIndices(indexList);
+    if (positions) {
+      const {data, type} = positions as IntoBufferObject;
+      result.computeBounds(data as number[], type.elemCount);
+    }
+    return result;
   }
 
   gatherVertexBufferData(
@@ -6,7 +6,6 @@ import {
   Texture as GltfTexture
 } from "@gltf-transform/core";
 import {GL} from "../core.ts"
-import {Matrix4} from "../../math/matrix.ts";
 import {getCachedOrCompute} from "../../util/cache.ts";
 import {loadGltfRoot, normalizeGltfBufferName} from "../gltf.ts";
 import {BtocFile} from "./btoc.ts";
@@ -94,12 +93,12 @@ class GltfToBtocConverter {
 
   convertBranch(node: GltfNode): NodeData {
     const name = node.getName();
-    const tf = new Matrix4(node.getMatrix(), false);
+    const transform = [...node.getMatrix()];
     const gltfMesh = node.getMesh();
     const mesh = (gltfMesh ? this.convertMesh(gltfMesh) : undefined);
     const children = node.listChildren()
       .map(child => this.convertBranch(child));
-    return {name, children, transform: tf.elems.elems, mesh}
+    return {name, children, transform, mesh}
   }
 
 
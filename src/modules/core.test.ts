@@ -0,0 +1,285 @@
+import {
+  BlendMode, EnvironmentUniforms, GL, Geometry, Material, Mesh, Node,
+  SceneTree, Shader, Submesh, bindMachine, clearViewport, startDrawing
+} from "./core.ts";
+import {getCalls, initFakeGraphics} from "../../test/fake_gl.ts";
+import {Vec3} from "../math/vec.ts";
+
+const glLog = initFakeGraphics();
+
+function createTree(): SceneTree {
+  const tree: SceneTree = {
+    aspectRatio: 1,
+    uniforms: new EnvironmentUniforms(),
+    root: new Node("root"),
+    extensions: {}
+  };
+  tree.root.tree = tree;
+  return tree;
+}
+
+// Connects to the signals of all the nodes in a branch, and logs them as
+// "<signal> <node>".
+function logSignals(branch: Node): string[] {
+  const log: string[] = [];
+  branch.recursively(node => {
+    node.onEnterTree.connect(() => log.push(`enter ${node.name}`));
+    node.onExitTree.connect(() => log.push(`exit ${node.name}`));
+    node.onChildAdded.connect(child => log.push(`added ${child.name}`));
+    node.onChildRemoved.connect(child => log.push(`removed ${child.name}`));
+  });
+  return log;
+}
+
+describe("Node signals", () => {
+  test("Entering & exiting the tree", () => {
+    const tree = createTree();
+    const a = new Node("a"), b = new Node("b"), c = new Node("c");
+    a.addChild(b);
+    b.addChild(c);
+    const log = logSignals(tree.root);
+    const branchLog = logSignals(a);
+
+    // Parents enter before their children, and the child is only reported as
+    // added once the whole branch is in the tree.
+    tree.root.addChild(a);
+    expect(log).toEqual(["added a"]);
+    expect(branchLog).toEqual(["enter a", "enter b", "enter c"]);
+    expect(c.tree).toBe(tree);
+
+    // Nodes are still in the tree while they exit.
+    log.length = branchLog.length = 0;
+    const treesWhileExiting: (SceneTree|null)[] = [];
+    c.onExitTree.connect(() => treesWhileExiting.push(c.tree));
+    tree.root.removeChild(a);
+    expect(log).toEqual(["removed a"]);
+    expect(branchLog).toEqual(["exit a", "exit b", "exit c"]);
+    expect(treesWhileExiting).toHaveLength(1);
+    expect(treesWhileExiting[0]).toBe(tree);
+    expect(c.tree).toBeNull();
+  });
+
+  test("Adding & removing outside of a tree", () => {
+    const a = new Node("a"), b = new Node("b");
+    const log = logSignals(a);
+    const childLog = logSignals(b);
+    a.addChild(b);
+    b.remove();
+    expect(log).toEqual(["added b", "removed b"]);
+    expect(childLog).toEqual([]);
+  });
+
+  test("Signals get the tree", () => {
+    const tree = createTree();
+    const node = new Node("node");
+    const trees: SceneTree[] = [];
+    node.onEnterTree.connect(tree => trees.push(tree));
+    node.onExitTree.connect(tree => trees.push(tree));
+    tree.root.addChild(node);
+    node.remove();
+    expect(trees).toHaveLength(2);
+    expect(trees.every(t => t === tree)).toBe(true);
+  });
+});
+
+describe("Node queries", () => {
+  class Group extends Node {}
+
+  // root
+  // ├─ Body (Group)
+  // │  ├─ Wheel_front
+  // │  └─ Wheel_back
+  // └─ Light
+  function createBranch() {
+    const root = new Node("root");
+    const body = new Group("Body");
+    const light = new Node("Light");
+    root.addChild(body);
+    root.addChild(light);
+    body.addChild(new Node("Wheel_front"));
+    body.addChild(new Node("Wheel_back"));
+    return {root, body, light};
+  }
+
+  test("getPath & getNode", () => {
+    const {root, body, light} = createBranch();
+    const wheel = body.children[1];
+    expect(wheel.getPath()).toBe("/root/Body/Wheel_back");
+    expect(root.getNode("Body/Wheel_back")).toBe(wheel);
+    expect(light.getNode("/root/Body/Wheel_back")).toBe(wheel);
+    expect(wheel.getNode("../../Light")).toBe(light);
+    expect(wheel.getNode("./")).toBe(wheel);
+    expect(root.getNode("Body", Group)).toBe(body);
+  });
+
+  test("Bad paths", () => {
+    const {root, body} = createBranch();
+    expect(() => root.getNode("Body/Wheel")).toThrow(
+      `"/root/Body" has no child called "Wheel". ` +
+      `Its children are: "Wheel_front", "Wheel_back".`
+    );
+    expect(() => body.getNode("../..")).toThrow(`"/root" has no parent.`);
+    expect(() => body.getNode("/scene/Body")).toThrow(
+      `the top of the tree is called "root", not "scene".`
+    );
+    expect(() => root.getNode("Light", Group)).toThrow(
+      "is a Node, but a Group was expected."
+    );
+    expect(root.tryGetNode("Body/Wheel")).toBeUndefined();
+    expect(root.tryGetNode("Light", Group)).toBeUndefined();
+    expect(root.tryGetNode("Light")).toBe(root.children[1]);
+  });
+
+  test("Glob & regular expression names", () => {
+    const {root, body} = createBranch();
+    const names = (nodes: Node[]) => nodes.map(node => node.name);
+    expect(names(root.findAllByName("Wheel_*")))
+      .toEqual(["Wheel_front", "Wheel_back"]);
+    expect(root.findByName("?ody")).toBe(body);
+    expect(root.findByName("Wheel")).toBeUndefined();
+    // Other characters aren't special.
+    expect(root.findByName("Wheel.front")).toBeUndefined();
+    expect(names(root.findAllByName(/^Wheel_(front|middle)$/)))
+      .toEqual(["Wheel_front"]);
+  });
+
+  test("Typed queries", () => {
+    const {root, body} = createBranch();
+    const group: Group|undefined = root.findOfType(Group);
+    expect(group).toBe(body);
+    expect(root.findAllOfType(Group)).toEqual([body]);
+    expect(root.findAllOfType(Node)).toHaveLength(5);
+    expect(body.children[0].findOfType(Group)).toBeUndefined();
+  });
+});
+
+describe("Node.clone", () => {
+  test("Children & properties", () => {
+    const tree = createTree();
+    const node = new Node("node");
+    node.addChild(new Node("a"));
+    node.addChild(new Node("b"));
+    node.children[1].addChild(new Node("c"));
+    node.visible = false;
+    node.layers = 6;
+    tree.root.addChild(node);
+
+    const copy = node.clone();
+    expect(copy).not.toBe(node);
+    expect(copy.name).toBe("node");
+    expect(copy.visible).toBe(false);
+    expect(copy.layers).toBe(6);
+    // The copy isn't in a tree yet, so it can be added anywhere.
+    expect(copy.tree).toBeNull();
+    expect(copy.parent).toBeNull();
+    expect(copy.children.map(child => child.name)).toEqual(["a", "b"]);
+    expect(copy.children[1].children[0].name).toBe("c");
+    expect(copy.children[1].children[0].parent).toBe(copy.children[1]);
+    expect(copy.children[0]).not.toBe(node.children[0]);
+    tree.root.addChild(copy);
+    expect(copy.children[0].tree).toBe(tree);
+
+    expect(node.clone(false).children).toEqual([]);
+  });
+});
+
+describe("Node.addChild", () => {
+  test("Indices", () => {
+    const node = new Node("node");
+    const add = (name: string, index?: number) =>
+      node.addChild(new Node(name), index);
+    add("b");
+    add("d");
+    add("a", 0);
+    add("c", 2);
+    // Negative indices count from the end.
+    add("e", -1);
+    add("x", -2);
+    expect(node.children.map(child => child.name))
+      .toEqual(["a", "b", "c", "d", "x", "e"]);
+  });
+});
+
+describe("Blend modes", () => {
+  test("Clearing after drawing a transparent material", () => {
+    const material = new Material(new Shader("", ""));
+    material.blendMode = BlendMode.ALPHA_BLEND;
+    const geometry =
+      Geometry.from(3, ["position", GL.FLOAT_VEC3, [0,0,0, 0,1,0, 1,0,0]]);
+    const submesh = new Submesh(geometry, material);
+    bindMachine.setEnvironment(new EnvironmentUniforms());
+
+    for (const clear of [startDrawing, () => clearViewport()]) {
+      glLog.length = 0;
+      submesh.draw();
+      expect(getCalls(glLog, "depthMask")).toEqual([[false]]);
+      // Drawing the submesh by itself leaves writing to the depth buffer off,
+      // but it has to be turned on again before clearing.
+      glLog.length = 0;
+      clear();
+      expect(getCalls(glLog, "depthMask")).toEqual([[true]]);
+      const calls = glLog.map(call => call.name);
+      expect(calls.indexOf("depthMask")).toBeLessThan(calls.indexOf("clear"));
+    }
+  });
+});
+
+describe("Bounds", () => {
+  function expectVec(actual: Vec3, expected: number[]) {
+    expected.forEach((value, i) => expect(actual.elems[i]).toBeCloseTo(value));
+  }
+
+  test("Geometry", () => {
+    const triangle = Geometry.from(3,
+      ["position", GL.FLOAT_VEC3, [0,0,0,  0,1,0,  1,0,0]]
+    );
+    expectVec(triangle.bounds.min, [0, 0, 0]);
+    expectVec(triangle.bounds.max, [1, 1, 0]);
+    expectVec(triangle.boundingSphere.center, [0.5, 0.5, 0]);
+    expect(triangle.boundingSphere.radius).toBeCloseTo(Math.SQRT1_2);
+
+    // 2D positions lie in the XY plane.
+    const flat = Geometry.from_indexed(4, [0, 1, 2, 2, 1, 3],
+      ["position", GL.FLOAT_VEC2, [-1,-2,  1,-2,  -1,2,  1,2]]
+    );
+    expectVec(flat.bounds.min, [-1, -2, 0]);
+    expectVec(flat.bounds.max, [1, 2, 0]);
+    expect(flat.boundingSphere.radius).toBeCloseTo(Math.sqrt(5));
+
+    const noPositions =
+      Geometry.from(3, ["uv", GL.FLOAT_VEC2, [0,0, 0,1, 1,0]]);
+    expect(noPositions.bounds.isEmpty()).toBe(true);
+    expect(noPositions.boundingSphere.isEmpty()).toBe(true);
+  });
+
+  test("Meshes merge their submeshes", () => {
+    const material = new Material(new Shader("", ""));
+    const submesh = (positions: number[]) => {
+      const count = positions.length / 3;
+      const geometry =
+        Geometry.from(count, ["position", GL.FLOAT_VEC3, positions]);
+      return new Submesh(geometry, material);
+    };
+    const mesh = new Mesh([
+      submesh([0,0,0,  0,1,0,  1,0,0]),
+      submesh([3,0,0,  3,1,0,  4,0,-2])
+    ]);
+    expectVec(mesh.bounds.min, [0, 0, -2]);
+    expectVec(mesh.bounds.max, [4, 1, 0]);
+    // The sphere is centered on the box and encloses the spheres of both
+    // submeshes.
+    const sphere = mesh.boundingSphere;
+    expectVec(sphere.center, [2, 0.5, -1]);
+    for (const {geometry} of mesh.submeshes) {
+      const inner = geometry.boundingSphere;
+      const distance = inner.center.sub(sphere.center).length();
+      expect(distance + inner.radius).toBeLessThanOrEqual(sphere.radius + 1e-6);
+    }
+
+    mesh.submeshes.pop();
+    mesh.updateBounds();
+    expectVec(mesh.bounds.max, [1, 1, 0]);
+    expect(new Mesh([]).bounds.isEmpty()).toBe(true);
+    expect(new Mesh([]).boundingSphere.isEmpty()).toBe(true);
+  });
+});
@@ -1,5 +1,7 @@
 import {Vec2, Vec3, Vec4} from "../math/vec.ts";
-import {Matrix, Matrix2, Matrix3, Matrix4} from "../math/matrix.ts";
+import {Matrix2, Matrix3, Matrix4} from "../math/matrix.ts";
+import {AABB, BoundingSphere} from "../math/primitives.ts";
+import {Signal} from "../util/signal.ts";
 // @ts-expect-error  WebGL debug does not support Typescript, but it's fine.
 import WebGLDebugUtils from "../external/webgl-debug";
 
@@ -80,7 +82,13 @@ export let canvasSize: Vec2 = new Vec2(1, 1);
 export let aspectRatio: number = 1;
 export let bindMachine: BindMachine;
 export let defaultUniformSources = new Map<string, UniformSource>();
+export let defaultUniformValues = new Map<string, UniformValue>();
+// How many frames were started with `startDrawing`.
+export let frameCount = 0;
 let afterResize: (() => void)|null = null;
+// Shaders, materials & geometry get increasing ids, which the render queue
+// sorts by.
+let nextSortId = 0;
 
 
 // General
@@ -240,6 +248,7 @@ interface VertexAttribute {
 export class Shader {
   public program: WebGLProgram;
   public vertexAttributes: Map<string, VertexAttribute>;
+  readonly _sortId = nextSortId++;
 
   public constructor(
     vertexShader: string | WebGLShader,
@@ -485,7 +494,9 @@ export class Texture {
 export type IntoSimpleUniform =
   number | number[] | Vec2 | Vec3 | Vec4 | Matrix2 | Matrix3 | Matrix4;
 export type IntoUniform = IntoSimpleUniform | Texture;
-export type UniformValue = number[] | Texture;
+// Vectors & matrices are passed on as Float32Arrays without copying them.
+export type UniformArray = number[] | Float32Array;
+export type UniformValue = UniformArray | Texture;
 export type UniformTypeAndValueTuple = [GLenum, IntoUniform, number?];
 export type IntoNamedUniformTuple = [string, ...UniformTypeAndValueTuple];
 export type IntoUniformArray = IntoUniformObject[];
@@ -538,7 +549,9 @@ function validateUniformWithValue(uniform: UniformWithValue) {
     console.assert(type.elemCount === 1);
   } else {
     console.assert(type.elemType === GL.FLOAT || type.elemType === GL.INT);
-    console.assert(Array.isArray(uniform.value));
+    console.assert(
+      Array.isArray(uniform.value) || uniform.value instanceof Float32Array
+    );
     console.assert(
       uniform.value.length === type.elemCount,
       `The value for uniform “${uniform.name}” has a wrong number of elements. `
@@ -548,13 +561,21 @@ function validateUniformWithValue(uniform: UniformWithValue) {
   }
 }
 
-function simpleUniformToArray(value: IntoSimpleUniform): number[] {
+// Integer uniforms can't be given a Float32Array (that only happens if you pass
+// a vector to an integer uniform, which is rare).
+function toIntList(value: UniformArray): Int32List {
+  return (value instanceof Float32Array ? Int32Array.from(value) : value);
+}
+
+function cloneValue(value: UniformValue): UniformValue {
+  return (value instanceof Texture ? value : value.slice());
+}
+
+function simpleUniformToArray(value: IntoSimpleUniform): UniformArray {
   if (Array.isArray(value))
     return value;
   if (typeof(value) === "number")
     return [value];
-  if (value instanceof Matrix)
-    return value.elems.elems;
   return value.elems;
 }
 
@@ -565,6 +586,13 @@ export function addDefaultUniformSources(
     defaultUniformSources.set(name, source);
 }
 
+// Materials start out with these values (instead of zero) for the uniforms
+// that their shader has.
+export function addDefaultUniformValues(...values: [string, IntoUniform][]) {
+  for (const [name, value] of values)
+    defaultUniformValues.set(name, UniformValue(value));
+}
+
 
 // Uniform maps
 
@@ -584,6 +612,15 @@ class UniformMap {
     return map;
   }
 
+  // The values are copied, but textures are shared.
+  clone(): this {
+    const copy = new (this.constructor as new () => this)();
+    for (const [name, uniform] of this.uniforms)
+      copy.uniforms.set(name, {...uniform, value: cloneValue(uniform.value)});
+    copy.hasChangedSinceLastBound = true;
+    return copy;
+  }
+
 
   // Getting & setting uniforms.
 
@@ -621,6 +658,17 @@ class UniformMap {
   }
 
   setFromTuple(uniform: IntoNamedUniformTuple) {
+    // If the uniform already exists with the same type, we only replace the
+    // value. This avoids a few allocations for uniforms that change per frame.
+    const [name, type, value, size] = uniform;
+    const existing = this.uniforms.get(name);
+    if (existing
+      && existing.type.type === type && existing.type.size === (size ?? 1)) {
+      existing.value = UniformValue(value);
+      validateUniformWithValue(existing);
+      this.hasChangedSinceLastBound = true;
+      return;
+    }
     this.setFromObject(UniformWithValue(...uniform));
   }
   
@@ -640,10 +688,32 @@ export class InstanceUniforms extends UniformMap {
 
 // Materials
 
+export enum BlendMode {
+  OPAQUE,
+  // Mixes the color with what's behind it based on the alpha.
+  ALPHA_BLEND,
+  // Adds the color (times the alpha) to what's behind it, which is good for
+  // glows and particles.
+  ADDITIVE,
+  // Like ALPHA_BLEND, but the color has already been multiplied by the alpha
+  // (for example in a premultiplied texture).
+  PREMULTIPLIED,
+  // Opaque, but pixels with an alpha below the cutoff aren't drawn at all.
+  // This is good for leaves and fences.
+  ALPHA_TEST
+}
+
+// Shaders that support transparency multiply their alpha by `opacity`, and
+// discard pixels with an alpha below `alpha_cutoff`.
+addDefaultUniformValues(["opacity", 1], ["alpha_cutoff", 0]);
+
 export class Material {
   public shader: Shader;
   public uniforms: Map<string, MaterialUniform>;
   public hasChangedSinceLastBound = false;
+  readonly _sortId = nextSortId++;
+  _blendMode = BlendMode.OPAQUE;
+  _alphaCutoff = 0.5;
 
 
   // Initialization
@@ -663,20 +733,71 @@ export class Material {
     return mat;
   }
 
+  // The copy uses the same shader & textures, but its uniforms can be changed
+  // without affecting this material.
+  public clone(): Material {
+    const copy = new Material(this.shader);
+    for (const [name, uniform] of this.uniforms)
+      copy.uniforms.set(name, {...uniform, value: cloneValue(uniform.value)});
+    copy._blendMode = this._blendMode;
+    copy._alphaCutoff = this._alphaCutoff;
+    copy.hasChangedSinceLastBound = true;
+    return copy;
+  }
+
+
+  // Transparency
+
+  public get blendMode(): BlendMode {
+    return this._blendMode;
+  }
+
+  public set blendMode(blendMode: BlendMode) {
+    this._blendMode = blendMode;
+    this._updateAlphaCutoff();
+    this.hasChangedSinceLastBound = true;
+  }
+
+  // Only used by BlendMode.ALPHA_TEST.
+  public get alphaCutoff(): number {
+    return this._alphaCutoff;
+  }
+
+  public set alphaCutoff(alphaCutoff: number) {
+    this._alphaCutoff = alphaCutoff;
+    this._updateAlphaCutoff();
+  }
+
+  // Transparent materials are drawn after the opaque ones, from back to front,
+  // and they don't write to the depth buffer.
+  public get isTransparent(): boolean {
+    return this._blendMode !== BlendMode.OPAQUE
+      && this._blendMode !== BlendMode.ALPHA_TEST;
+  }
+
+  _updateAlphaCutoff() {
+    if (!this.uniforms.has("alpha_cutoff"))
+      return;
+    const isAlphaTest = (this._blendMode === BlendMode.ALPHA_TEST);
+    this.setUniform("alpha_cutoff", isAlphaTest ? this._alphaCutoff : 0);
+  }
+
   _createUniformMap(): Map<string, MaterialUniform> {
     const map = new Map<string, MaterialUniform>();
     const count =
       gl.getProgramParameter(this.shader.program, GL.ACTIVE_UNIFORMS);
     for (let i = 0; i < count; i++) {
       const [uniform, location] = this._getUniformInfo(i);
-      const value = [0];
-      for (let i = 1; i < uniform.type.elemCount; i++)
-        value.push(0);
+      const defaultValue = defaultUniformValues.get(uniform.name);
+      const value = (defaultValue
+        ? cloneValue(defaultValue)
+        : new Array<number>(uniform.type.elemCount).fill(0));
 
       const valueSource =
         defaultUniformSources.get(uniform.name) ?? UniformSource.MATERIAL;
       map.set(uniform.name, {
-        ...uniform, value, location, valueSource, hasBeenWritten: false
+        ...uniform, value, location, valueSource,
+        hasBeenWritten: !!defaultValue
       });
     }
     return map;
@@ -738,6 +859,19 @@ export class Geometry {
   public vertexCount: number;
   public indexBuffer?: VertexBuffer;
   public indexCount?: number;
+  // The bounds are in local space. They stay empty until they're computed from
+  // the positions, which the loaders and `Geometry.from` do automatically.
+  public bounds = AABB.empty();
+  public boundingSphere = BoundingSphere.empty();
+  // CPU copies of the positions (x,y,z per vertex) and indices, which
+  // raycasting needs. These take as much memory as the buffers on the GPU, so
+  // they're only kept while `Geometry.keepCpuCopies` is on.
+  public positions: Float32Array|null = null;
+  public indices: Uint16Array|null = null;
+  // Turn this on before creating or loading the meshes that you want to
+  // raycast against.
+  static keepCpuCopies = false;
+  readonly _sortId = nextSortId++;
 
   public constructor(
     vertexCount: number, vertexBuffers: [string, VertexBuffer][],
@@ -776,7 +910,9 @@ export class Geometry {
     vertexCount: number, ...vertexBuffers: IntoNamedVertexBuffer[]
   ): Geometry {
     const buffers = Geometry.createNamedBuffers(vertexCount, vertexBuffers);
-    return new Geometry(vertexCount, buffers);
+    const geometry = new Geometry(vertexCount, buffers);
+    geometry._computeBoundsFromBuffers(vertexBuffers);
+    return geometry;
   }
 
   public static from_indexed(
@@ -786,7 +922,47 @@ export class Geometry {
   ): Geometry {
     const indexBuffer = VertexBuffer.createIndexBuffer(indices);
     const buffers = Geometry.createNamedBuffers(vertexCount, vertexBuffers);
-    return new Geometry(vertexCount, buffers, indices.length, indexBuffer);
+    const geometry =
+      new Geometry(vertexCount, buffers, indices.length, indexBuffer);
+    geometry.keepIndices(indices);
+    geometry._computeBoundsFromBuffers(vertexBuffers);
+    return geometry;
+  }
+
+  // The positions are a flat list with `elemCount` numbers per vertex. 2D
+  // positions get a Z of zero. This also keeps a copy of the positions if
+  // `Geometry.keepCpuCopies` is on.
+  public computeBounds(positions: ArrayLike<number>, elemCount = 3) {
+    if (elemCount !== 3) {
+      const xyz = new Float32Array(positions.length / elemCount * 3);
+      for (let i = 0, j = 0; i < positions.length; i += elemCount, j += 3)
+        for (let axis = 0; axis < Math.min(elemCount, 3); axis++)
+          xyz[j + axis] = positions[i + axis];
+      positions = xyz;
+    }
+    this.bounds = AABB.FromPoints(positions);
+    this.boundingSphere = BoundingSphere.FromPoints(positions);
+    if (Geometry.keepCpuCopies)
+      this.positions = Float32Array.from(positions);
+  }
+
+  // Keeps a copy of the indices if `Geometry.keepCpuCopies` is on.
+  public keepIndices(indices: ArrayLike<number>) {
+    if (Geometry.keepCpuCopies)
+      this.indices = Uint16Array.from(indices);
+  }
+
+  _computeBoundsFromBuffers(buffers: IntoNamedVertexBuffer[]) {
+    const position = buffers.find(([name]) => name === "position");
+    if (!position)
+      return;
+    const [_, type, data] = position;
+    const {elemType, elemCount} = GlType(type);
+    const source = VertexBuffer.normalizeIntoBufferSource(data, elemType);
+    if (source instanceof ArrayBuffer && elemType === GL.FLOAT)
+      this.computeBounds(new Float32Array(source), elemCount);
+    else if (ArrayBuffer.isView(source) && !(source instanceof DataView))
+      this.computeBounds(source as Float32Array, elemCount);
   }
 
   public static createNamedBuffers(
@@ -829,11 +1005,32 @@ export class Geometry {
   }
 
   static Square: Geometry;
+
+  // This only issues the draw call, so the shader and the geometry (or a VAO)
+  // must already be bound.
+  public draw() {
+    bindMachine.stats.drawCalls++;
+    if (this.indexCount !== undefined)
+      gl.drawElements(GL.TRIANGLES, this.indexCount, GL.UNSIGNED_SHORT, 0);
+    else gl.drawArrays(GL.TRIANGLES, 0, this.vertexCount);
+  }
 }
 
 
 // Bind machine
 
+// How much work drawing took since the last `startDrawing`. Comparing these
+// shows how much sorting the render queue saves.
+export interface DrawStats {
+  drawCalls: number,
+  shaderSwitches: number,
+  // Full material binds upload all of a material's uniforms (and textures).
+  materialBinds: number,
+  // Partial binds only upload the instance uniforms.
+  partialMaterialBinds: number,
+  vaoSwitches: number
+}
+
 export class BindMachine {
   environment: EnvironmentUniforms|null = null;
   instanceUniforms: InstanceUniforms|null = null;
@@ -841,7 +1038,23 @@ export class BindMachine {
   material: Material|null = null;
   geometry: Geometry|null = null;
   vao: WebGLVertexArrayObject|null = null;
+  blendMode: BlendMode|null = null;
   wereInstanceUniformsChanged = false;
+  public stats: DrawStats = BindMachine._emptyStats();
+
+  static _emptyStats(): DrawStats {
+    return {
+      drawCalls: 0,
+      shaderSwitches: 0,
+      materialBinds: 0,
+      partialMaterialBinds: 0,
+      vaoSwitches: 0
+    };
+  }
+
+  public resetStats() {
+    this.stats = BindMachine._emptyStats();
+  }
 
 
   public clear() {
@@ -851,6 +1064,7 @@ export class BindMachine {
     this.material = null;
     this.geometry = null;
     this.vao = null;
+    this.blendMode = null;
     this.wereInstanceUniformsChanged = false;
   }
 
@@ -888,20 +1102,26 @@ export class BindMachine {
       // PARTIAL UPDATE: Material is the same but instance uniforms were changed
       if (!this.wereInstanceUniformsChanged || !this.instanceUniforms)
         return;
+      this.stats.partialMaterialBinds++;
       for (const [_, uniform] of material.uniforms) {
         if (uniform.valueSource !== UniformSource.INSTANCE)
           continue;
         console.assert(uniform.type.type !== GL.SAMPLER_2D);
         const value = this.instanceUniforms.tryGet(uniform) ?? uniform.value;
-        this._bindSimpleUniform(uniform, value as number[]);
+        this._bindSimpleUniform(uniform, value as UniformArray);
       }
+      this.wereInstanceUniformsChanged = false;
       return;
     }
 
     // FULL UPDATE: New material -- update all uniforms.
     this._setShader(material.shader);
+    this._setBlendMode(material.blendMode);
     this.material = material;
     this.material.hasChangedSinceLastBound = false;
+    this.stats.materialBinds++;
+    // The instance uniforms are bound along with the rest.
+    this.wereInstanceUniformsChanged = false;
     let textureUnit = 0;
 
     for (const [_, uniform] of material.uniforms) {
@@ -913,7 +1133,7 @@ export class BindMachine {
         const tex = (value instanceof Texture ? value : null);
         this._bindTextureInform(uniform, tex, textureUnit);
         textureUnit += 1;
-      } else this._bindSimpleUniform(uniform, value as number[]);
+      } else this._bindSimpleUniform(uniform, value as UniformArray);
     }
   }
 
@@ -952,9 +1172,47 @@ export class BindMachine {
       return;
     this.shader = shader;
     gl.useProgram(shader.program);
+    this.stats.shaderSwitches++;
   }
 
-  _bindSimpleUniform(uniform: MaterialUniform, value: number[]) {
+  _setBlendMode(blendMode: BlendMode) {
+    if (this.blendMode === blendMode)
+      return;
+    this.blendMode = blendMode;
+    switch (blendMode) {
+      case BlendMode.OPAQUE:
+      case BlendMode.ALPHA_TEST:
+        gl.disable(gl.BLEND);
+        gl.depthMask(true);
+        return;
+      case BlendMode.ALPHA_BLEND:
+        gl.blendFuncSeparate(
+          gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA
+        );
+        break;
+      case BlendMode.ADDITIVE:
+        gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+        break;
+      case BlendMode.PREMULTIPLIED:
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        break;
+    }
+    // Transparent surfaces shouldn't hide what's behind them.
+    gl.enable(gl.BLEND);
+    gl.depthMask(false);
+  }
+
+  // Transparent materials turn off writing to the depth buffer, which also
+  // keeps it from being cleared. This turns it on again.
+  public resetBlendMode() {
+    if (this.blendMode === BlendMode.OPAQUE)
+      return;
+    this._setBlendMode(BlendMode.OPAQUE);
+    // The material has to set its own blend mode again.
+    this.material = null;
+  }
+
+  _bindSimpleUniform(uniform: MaterialUniform, value: UniformArray) {
     // console.assert(uniform.size === 1);
     const l = uniform.location;
     switch (uniform.type.type) {
@@ -962,10 +1220,10 @@ export class BindMachine {
       case GL.FLOAT_VEC2: gl.uniform2fv(l, value); break;
       case GL.FLOAT_VEC3: gl.uniform3fv(l, value); break;
       case GL.FLOAT_VEC4: gl.uniform4fv(l, value); break;
-      case GL.INT: gl.uniform1iv(l, value); break;
-      case GL.INT_VEC2: gl.uniform2iv(l, value); break;
-      case GL.INT_VEC3: gl.uniform3iv(l, value); break;
-      case GL.INT_VEC4: gl.uniform4iv(l, value); break;
+      case GL.INT: gl.uniform1iv(l, toIntList(value)); break;
+      case GL.INT_VEC2: gl.uniform2iv(l, toIntList(value)); break;
+      case GL.INT_VEC3: gl.uniform3iv(l, toIntList(value)); break;
+      case GL.INT_VEC4: gl.uniform4iv(l, toIntList(value)); break;
       case GL.FLOAT_MAT2: gl.uniformMatrix2fv(l, false, value); break;
       case GL.FLOAT_MAT3: gl.uniformMatrix3fv(l, false, value); break;
       case GL.FLOAT_MAT4: gl.uniformMatrix4fv(l, false, value); break;
@@ -1043,6 +1301,7 @@ export class BindMachine {
     this.geometry = null;
     this.vao = vao;
     glVAO.bindVertexArrayOES(vao);
+    this.stats.vaoSwitches++;
   }
 }
 
@@ -1057,46 +1316,126 @@ export function setBackgroundColor(color: Vec4) {
 }
 
 export function startDrawing() {
+  frameCount++;
+  bindMachine.resetBlendMode();
   gl.clear(GL.COLOR_BUFFER_BIT | GL.DEPTH_BUFFER_BIT);
+  bindMachine.resetStats();
 }
 
 export function finishDrawing() {
   gl.flush();
 }
 
+// A rectangle on the canvas in pixels, with (0,0) in the top left corner (just
+// like screen positions).
+export interface Viewport {
+  x: number,
+  y: number,
+  width: number,
+  height: number
+}
+
+// Only draw into the given part of the canvas, or into the whole canvas when
+// the viewport is null. Clearing also only affects the viewport.
+export function setViewport(viewport: Viewport|null) {
+  if (!viewport) {
+    gl.viewport(0, 0, canvasSize.x, canvasSize.y);
+    gl.disable(gl.SCISSOR_TEST);
+    return;
+  }
+  // WebGL has (0,0) in the bottom left corner.
+  const y = canvasSize.y - viewport.y - viewport.height;
+  gl.viewport(viewport.x, y, viewport.width, viewport.height);
+  gl.scissor(viewport.x, y, viewport.width, viewport.height);
+  gl.enable(gl.SCISSOR_TEST);
+}
+
+// Clears the depth of the current viewport, and its color if one is given.
+export function clearViewport(color?: Vec4) {
+  bindMachine.resetBlendMode();
+  if (!color) {
+    gl.clear(GL.DEPTH_BUFFER_BIT);
+    return;
+  }
+  gl.clearColor(color.r, color.g, color.b, color.a);
+  gl.clear(GL.COLOR_BUFFER_BIT | GL.DEPTH_BUFFER_BIT);
+  gl.clearColor(clearColor.r, clearColor.g, clearColor.b, clearColor.a);
+}
+
 export interface Drawable {
   draw(): void;
 }
 
+export function isDrawable(value: object): value is Drawable {
+  return typeof((value as Partial<Drawable>).draw) === "function";
+}
+
 export class Submesh implements Drawable {
   public geometry: Geometry;
   public material: Material;
   public vao: WebGLVertexArrayObject;
 
-  public constructor(geometry: Geometry, material: Material) {
+  // The VAO can be shared between submeshes that have the same geometry and
+  // the same shader.
+  public constructor(
+    geometry: Geometry, material: Material, vao?: WebGLVertexArrayObject
+  ) {
     this.geometry = geometry;
     this.material = material;
-    this.vao = bindMachine.createVao(geometry, material.shader);
+    this.vao = vao ?? bindMachine.createVao(geometry, material.shader);
   }
 
   public draw() {
     bindMachine.setMaterial(this.material);
     bindMachine.setVao(this.vao);
-    if (this.geometry.indexCount !== undefined) {
-      gl.drawElements(
-        GL.TRIANGLES, this.geometry.indexCount, GL.UNSIGNED_SHORT, 0
-      );
-    } else gl.drawArrays(GL.TRIANGLES, 0, this.geometry.vertexCount);
+    this.geometry.draw();
   }
 }
 
 export class Mesh implements Drawable {
   public submeshes: Submesh[];
   public name?: string;
+  // These enclose the bounds of all the submeshes' geometry. Call
+  // `updateBounds` after changing the submeshes.
+  public bounds = AABB.empty();
+  public boundingSphere = BoundingSphere.empty();
 
   public constructor(submeshes: Submesh[], name?: string) {
     this.name = name;
     this.submeshes = submeshes;
+    this.updateBounds();
+  }
+
+  public updateBounds() {
+    const geometries = this.submeshes.map(submesh => submesh.geometry);
+    this.bounds = geometries.reduce(
+      (bounds, geometry) => bounds.union(geometry.bounds), AABB.empty()
+    );
+    // This sphere encloses the spheres of the geometry, which is usually
+    // tighter than the sphere around the box.
+    this.boundingSphere = BoundingSphere.empty();
+    if (this.bounds.isEmpty())
+      return;
+    const center = this.bounds.center;
+    let radius = 0;
+    for (const {boundingSphere: sphere} of geometries) {
+      if (sphere.isEmpty())
+        continue;
+      const distance = sphere.center.sub(center).length();
+      radius = Math.max(radius, distance + sphere.radius);
+    }
+    this.boundingSphere = new BoundingSphere(center, radius);
+  }
+
+  // The geometry is always shared. The materials are only copied if asked,
+  // which is useful for giving a copy different colors.
+  public clone(cloneMaterials = false): Mesh {
+    const submeshes = this.submeshes.map(submesh => new Submesh(
+      submesh.geometry,
+      cloneMaterials ? submesh.material.clone() : submesh.material,
+      submesh.vao
+    ));
+    return new Mesh(submeshes, this.name);
   }
 
   public draw() {
@@ -1106,6 +1445,78 @@ export class Mesh implements Drawable {
 }
 
 
+// Render queue
+
+export interface RenderItem {
+  submesh: Submesh,
+  instanceUniforms: InstanceUniforms|null,
+  // The distance to the camera (only used for transparent submeshes).
+  distance: number
+}
+
+// Collects submeshes so that they can be drawn sorted by shader, then material
+// and then geometry. That way the bind machine has to switch as little as
+// possible, and drawing the same material several times in a row only needs
+// partial updates. Transparent submeshes are drawn after all the opaque ones,
+// from back to front.
+export class RenderQueue {
+  public items: RenderItem[] = [];
+  public transparentItems: RenderItem[] = [];
+  // The items are reused every frame so that drawing doesn't allocate.
+  _pool: RenderItem[] = [];
+
+  public add(
+    submesh: Submesh, instanceUniforms: InstanceUniforms|null, distance = 0
+  ) {
+    const count = this.items.length + this.transparentItems.length;
+    const item = this._pool[count] ??=
+      {submesh, instanceUniforms, distance};
+    item.submesh = submesh;
+    item.instanceUniforms = instanceUniforms;
+    item.distance = distance;
+    if (submesh.material.isTransparent)
+      this.transparentItems.push(item);
+    else this.items.push(item);
+  }
+
+  // This only sorts the opaque submeshes. Transparent ones are always sorted
+  // by distance, because otherwise they would look wrong.
+  public sort() {
+    this.items.sort(RenderQueue.compare);
+  }
+
+  static compare(a: RenderItem, b: RenderItem): number {
+    const materialA = a.submesh.material;
+    const materialB = b.submesh.material;
+    return (materialA.shader._sortId - materialB.shader._sortId)
+      || (materialA._sortId - materialB._sortId)
+      || (a.submesh.geometry._sortId - b.submesh.geometry._sortId);
+  }
+
+  static compareTransparent(a: RenderItem, b: RenderItem): number {
+    return (b.distance - a.distance) || RenderQueue.compare(a, b);
+  }
+
+  public draw() {
+    this.transparentItems.sort(RenderQueue.compareTransparent);
+    RenderQueue._drawItems(this.items);
+    RenderQueue._drawItems(this.transparentItems);
+  }
+
+  static _drawItems(items: RenderItem[]) {
+    for (const item of items) {
+      bindMachine.setInstanceUniforms(item.instanceUniforms);
+      item.submesh.draw();
+    }
+  }
+
+  public clear() {
+    this.items.length = 0;
+    this.transparentItems.length = 0;
+  }
+}
+
+
 // Scene tree
 
 export interface SceneTree {
@@ -1115,7 +1526,26 @@ export interface SceneTree {
 
   // `extra` is an object that stores additional data, for example lights are
   // typically in extra.lights3D.
-  extensions: any
+  extensions: any,
+
+  // Trees that only draw when something changed get told about changes here.
+  requestRedraw?(): void
+}
+
+export interface CloneOptions {
+  // By default, the copied meshes share their materials with the originals.
+  cloneMaterials?: boolean;
+}
+
+// A node class, like MeshNode3D. This is used for type-safe queries.
+export type NodeType<T extends Node> = abstract new (...args: any[]) => T;
+
+function nameToRegExp(name: string|RegExp): RegExp {
+  if (name instanceof RegExp)
+    return name;
+  const escaped = name.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  const pattern = escaped.replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${pattern}$`);
 }
 
 export class Node {
@@ -1124,6 +1554,17 @@ export class Node {
   public parent: Node|null;
   public tree: SceneTree|null = null;
 
+  _visible = true;
+  _layers = 1;
+
+  // Signals that anyone can connect to. A node enters a tree when it or one of
+  // its ancestors gets added to the tree, and it exits when it or one of its
+  // ancestors gets removed. Parents enter and exit before their children.
+  public readonly onEnterTree = new Signal<[tree: SceneTree]>();
+  public readonly onExitTree = new Signal<[tree: SceneTree]>();
+  public readonly onChildAdded = new Signal<[child: Node]>();
+  public readonly onChildRemoved = new Signal<[child: Node]>();
+
   public constructor(name?: string) {
     this.name = name ?? "Node";
     this.children = [];
@@ -1131,6 +1572,29 @@ export class Node {
   }
 
 
+  // An invisible node isn't drawn, and neither are its descendants.
+  public get visible(): boolean {
+    return this._visible;
+  }
+
+  public set visible(visible: boolean) {
+    this._visible = visible;
+    this.tree?.requestRedraw?.();
+  }
+
+  // A bitmask of the render layers that the node is on. Cameras only draw the
+  // nodes that share at least one layer with their cull mask. (Unlike
+  // `visible`, this isn't inherited by the node's children.)
+  public get layers(): number {
+    return this._layers;
+  }
+
+  public set layers(layers: number) {
+    this._layers = layers;
+    this.tree?.requestRedraw?.();
+  }
+
+
   // Adding & removing nodes
 
   public addChild(node: Node, index = -1) {
@@ -1140,10 +1604,14 @@ export class Node {
         "but the child is already in a scene tree."
       );
     }
-    this.children.splice(index, 0, node);
+    // Negative indices count from the end, so -1 adds the child at the end.
+    const at = (index < 0 ? this.children.length + 1 + index : index);
+    this.children.splice(at, 0, node);
     node._setParent(this);
+    this._afterBranchChanged();
     if (this.tree !== null)
       node.recursively(node => node._setTree(this.tree));
+    this.onChildAdded.emit(node);
   }
 
   public removeChild(node: Node) {
@@ -1158,7 +1626,9 @@ export class Node {
     this.children.splice(found, 1);
     console.assert(!this.children.includes(node), "Child was in list twice?!");
     node.parent = null;
+    this._afterBranchChanged();
     node.recursively(node => node._setTree(null));
+    this.onChildRemoved.emit(node);
   }
 
   public remove() {
@@ -1169,6 +1639,40 @@ export class Node {
   }
 
 
+  // Cloning
+
+  // Copy the node, and its descendants if `deep` is true. The copy isn't in a
+  // tree yet. GPU resources like geometry are shared with the original, so
+  // this is much cheaper than loading the same scene again.
+  public clone(deep = true, opts: CloneOptions = {}): this {
+    const copy = this._cloneWithoutChildren(opts);
+    if (deep)
+      for (const child of this.children)
+        copy.addChild(child.clone(true, opts));
+    return copy;
+  }
+
+  // Derived classes override this to copy their own properties. Classes whose
+  // constructor doesn't take just a name should also create the copy
+  // themselves.
+  _cloneWithoutChildren(opts: CloneOptions): this {
+    const type = this.constructor as new (name?: string) => this;
+    const copy = new type(this.name);
+    copy.visible = this.visible;
+    copy.layers = this.layers;
+    return copy;
+  }
+
+
+  // Whether the node and all of its ancestors are visible.
+  public isVisibleInTree(): boolean {
+    for (let node: Node|null = this; node; node = node.parent)
+      if (!node.visible)
+        return false;
+    return true;
+  }
+
+
   // Branch operations
 
   // Depth-first tree traversal
@@ -1221,16 +1725,135 @@ export class Node {
     return result;
   }
 
+  // The name can be an exact name, a glob pattern (where `*` matches any text
+  // and `?` matches a single character) or a regular expression.
+  public findByName(name: string|RegExp): Node|undefined {
+    const regex = nameToRegExp(name);
+    return this.find(node => regex.test(node.name));
+  }
+
+  public findAllByName(name: string|RegExp): Node[] {
+    const regex = nameToRegExp(name);
+    return this.findAll(node => regex.test(node.name));
+  }
+
+  // For example `root.findOfType(Camera3D)` returns a Camera3D (or undefined).
+  public findOfType<T extends Node>(type: NodeType<T>): T|undefined {
+    return this.find(node => node instanceof type) as T|undefined;
+  }
+
+  public findAllOfType<T extends Node>(type: NodeType<T>): T[] {
+    return this.findAll(node => node instanceof type) as T[];
+  }
+
+
+  // Paths
+  // A path is a list of node names separated by slashes, like "Body/Wheel".
+  // Paths are relative to the node, unless they start with a slash. Absolute
+  // paths start at the top of the tree, so they look like "/root/Body". Just
+  // like with files, ".." means the parent and "." means the node itself.
+
+  public getPath(): string {
+    const names = [];
+    for (let node: Node|null = this; node; node = node.parent)
+      names.push(node.name);
+    return "/" + names.reverse().join("/");
+  }
+
+  // If a type is given, this also checks that the node has that type.
+  public getNode<T extends Node = Node>(path: string, type?: NodeType<T>): T {
+    const result = this._resolvePath(path);
+    if (typeof(result) === "string")
+      throw new Error(result);
+    if (type && !(result instanceof type)) {
+      throw new Error(
+        `The node at "${path}" (from "${this.getPath()}") is a ` +
+        `${result.constructor.name}, but a ${type.name} was expected.`
+      );
+    }
+    return result as T;
+  }
+
+  // This is like `getNode`, but returns undefined instead of throwing errors.
+  public tryGetNode<T extends Node = Node>(
+    path: string, type?: NodeType<T>
+  ): T|undefined {
+    const result = this._resolvePath(path);
+    if (typeof(result) === "string" || (type && !(result instanceof type)))
+      return undefined;
+    return result as T;
+  }
+
+  // Returns the node, or an error message.
+  _resolvePath(path: string): Node|string {
+    let node: Node = this;
+    const segments = path.split("/");
+
+    if (path.startsWith("/")) {
+      while (node.parent)
+        node = node.parent;
+      segments.shift();
+      const rootName = segments.shift();
+      if (rootName !== node.name) {
+        return (
+          `Couldn't find the node at "${path}": the top of the tree is ` +
+          `called "${node.name}", not "${rootName}".`
+        );
+      }
+    }
+
+    for (const segment of segments) {
+      if (segment === "" || segment === ".")
+        continue;
+      if (segment === "..") {
+        if (!node.parent) {
+          return (
+            `Couldn't find the node at "${path}" (from "${this.getPath()}"): ` +
+            `"${node.getPath()}" has no parent.`
+          );
+        }
+        node = node.parent;
+        continue;
+      }
+      const child = node.children.find(child => child.name === segment);
+      if (!child) {
+        const names = node.children.map(child => `"${child.name}"`);
+        return (
+          `Couldn't find the node at "${path}" (from "${this.getPath()}"): ` +
+          `"${node.getPath()}" has no child called "${segment}". ` +
+          `Its children are: ${names.join(", ") || "(none)"}.`
+        );
+      }
+      node = child;
+    }
+    return node;
+  }
 
-  // These functions are overridden in some derived classes. For example a
-  // camera might need to update its projection matrix when it's added to a tree
+
+  // These functions are overridden in some derived classes. If you only need
+  // to know when the node enters or exits a tree, use the signals instead.
 
   _setTree(tree: SceneTree|null) {
     console.assert(this.tree === null || tree === null);
+    // The node is still in the old tree while it exits.
+    if (this.tree) {
+      this.tree.requestRedraw?.();
+      this.onExitTree.emit(this.tree);
+    }
     this.tree = tree;
+    if (tree) {
+      tree.requestRedraw?.();
+      this.onEnterTree.emit(tree);
+    }
   }
 
   _setParent(node: Node) {
     this.parent = node;
   }
+
+  // This is called on the parent when a child was added or removed, and it's
+  // passed up to the top of the branch.
+  _afterBranchChanged() {
+    this.parent?._afterBranchChanged();
+  }
 }
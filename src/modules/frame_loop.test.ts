@@ -0,0 +1,147 @@
+import {EnvironmentUniforms, Node} from "./core.ts";
+import {FrameLoop} from "./frame_loop.ts";
+import {initFakeGraphics} from "../../test/fake_gl.ts";
+
+initFakeGraphics();
+
+// A tree that counts how often it's drawn.
+class CountingTree {
+  aspectRatio = 1;
+  uniforms = new EnvironmentUniforms();
+  root = new Node("root");
+  extensions = {};
+  needsRedraw = true;
+  drawCount = 0;
+
+  constructor() {
+    this.root.tree = this;
+  }
+
+  draw() {
+    this.drawCount++;
+  }
+}
+
+// Logs the delta times that it gets.
+class Ticker extends Node {
+  deltaTimes: number[] = [];
+  onUpdate?: () => void;
+
+  update(deltaTime: number) {
+    this.deltaTimes.push(deltaTime);
+    this.onUpdate?.();
+  }
+}
+
+// Animation frames are only run when the test says so.
+type FrameCallback = (now: number) => void;
+let animationFrames = new Map<number, FrameCallback>();
+let nextFrameId = 1;
+(globalThis as any).requestAnimationFrame = (callback: FrameCallback) => {
+  animationFrames.set(nextFrameId, callback);
+  return nextFrameId++;
+};
+(globalThis as any).cancelAnimationFrame = (id: number) => {
+  animationFrames.delete(id);
+};
+
+function runAnimationFrame(now: number) {
+  const frames = animationFrames;
+  animationFrames = new Map();
+  for (const callback of frames.values())
+    callback(now);
+}
+
+describe("FrameLoop", () => {
+  test("step", () => {
+    const tree = new CountingTree();
+    const ticker = new Ticker("ticker");
+    tree.root.addChild(ticker);
+    const loop = new FrameLoop(tree);
+    const updates: number[] = [];
+    loop.onUpdate.connect(deltaTime => updates.push(deltaTime));
+
+    loop.step(0.5);
+    loop.step(0.25);
+    expect(ticker.deltaTimes).toEqual([0.5, 0.25]);
+    expect(updates).toEqual([0.5, 0.25]);
+    expect(loop.time).toBe(0.75);
+    expect(tree.drawCount).toBe(2);
+  });
+
+  test("Nodes added or removed during an update", () => {
+    const tree = new CountingTree();
+    const first = new Ticker("first");
+    const removed = new Ticker("removed");
+    const added = new Ticker("added");
+    tree.root.addChild(first);
+    tree.root.addChild(removed);
+    first.onUpdate = () => {
+      if (removed.tree)
+        removed.remove();
+      if (!added.tree)
+        tree.root.addChild(added);
+    };
+
+    const loop = new FrameLoop(tree);
+    loop.step(1);
+    expect(removed.deltaTimes).toEqual([]);
+    expect(added.deltaTimes).toEqual([]);
+    loop.step(1);
+    expect(added.deltaTimes).toEqual([1]);
+  });
+
+  test("Drawing on demand", () => {
+    const tree = new CountingTree();
+    const ticker = new Ticker("ticker");
+    tree.root.addChild(ticker);
+    const loop = new FrameLoop(tree, {drawOnDemand: true});
+    loop.step(1);
+    tree.needsRedraw = false;
+    loop.step(1);
+    loop.step(1);
+    expect(tree.drawCount).toBe(1);
+    // The nodes are still updated.
+    expect(ticker.deltaTimes).toEqual([1, 1, 1]);
+  });
+
+  test("Pausing & resuming", () => {
+    const tree = new CountingTree();
+    const ticker = new Ticker("ticker");
+    tree.root.addChild(ticker);
+    const loop = new FrameLoop(tree);
+
+    loop.start();
+    expect(loop.isRunning).toBe(true);
+    runAnimationFrame(1000);
+    runAnimationFrame(1100);
+    // Long frames are limited to `maxDeltaTime`.
+    runAnimationFrame(2100);
+    expect(ticker.deltaTimes).toEqual([0, 0.1, 0.25]);
+
+    loop.pause();
+    expect(loop.isRunning).toBe(false);
+    runAnimationFrame(2200);
+    expect(ticker.deltaTimes).toHaveLength(3);
+    expect(tree.drawCount).toBe(3);
+
+    // The time spent paused doesn't count.
+    loop.resume();
+    runAnimationFrame(9000);
+    runAnimationFrame(9050);
+    expect(ticker.deltaTimes).toEqual([0, 0.1, 0.25, 0, 0.05]);
+    expect(loop.time).toBeCloseTo(0.4);
+    loop.pause();
+  });
+
+  test("Target framerate", () => {
+    const tree = new CountingTree();
+    const loop = new FrameLoop(tree, {targetFramerate: 30});
+    loop.start();
+    for (let now = 0; now <= 1000; now += 1000 / 60)
+      runAnimationFrame(now);
+    loop.pause();
+    // Every other animation frame is skipped.
+    expect(tree.drawCount).toBe(31);
+  });
+});
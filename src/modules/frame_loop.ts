@@ -0,0 +1,120 @@
+import {
+  Drawable, Node, SceneTree, finishDrawing, startDrawing
+} from "./core.ts";
+import {Signal} from "../util/signal.ts";
+
+// Nodes can have an `update` function, which the frame loop calls every frame
+// before drawing (just like `_process` in Godot).
+export interface Updatable {
+  update(deltaTime: number): void;
+}
+
+export function isUpdatable(node: Node): node is Node & Updatable {
+  return typeof((node as Partial<Updatable>).update) === "function";
+}
+
+export interface FrameLoopOptions {
+  // By default, the loop runs at the display's refresh rate.
+  targetFramerate?: number;
+  // Only draw frames in which something changed (see
+  // SceneTree3D.needsRedraw). The nodes are still updated every frame.
+  drawOnDemand?: boolean;
+}
+
+// Trees that can tell whether they need to be drawn again.
+type LoopTree = SceneTree & Drawable & {readonly needsRedraw?: boolean};
+
+// Keeps updating and drawing a scene tree. Delta times are in seconds.
+export class FrameLoop {
+  public tree: LoopTree;
+  public targetFramerate: number|null;
+  public drawOnDemand: boolean;
+  // This limits the delta time after a long pause (for example when the tab
+  // was in the background), so that things don't suddenly jump.
+  public maxDeltaTime = 0.25;
+  // The time (in seconds) that the loop has been running, without pauses.
+  public time = 0;
+  // This is emitted every frame after the nodes have been updated.
+  public readonly onUpdate = new Signal<[deltaTime: number]>();
+
+  _isRunning = false;
+  _requestId: number|null = null;
+  _lastFrameTime: number|null = null;
+  // This is reused every frame to avoid allocations.
+  _updateQueue: (Node & Updatable)[] = [];
+
+  public constructor(tree: LoopTree, opts: FrameLoopOptions = {}) {
+    this.tree = tree;
+    this.targetFramerate = opts.targetFramerate ?? null;
+    this.drawOnDemand = opts.drawOnDemand ?? false;
+  }
+
+  public get isRunning(): boolean {
+    return this._isRunning;
+  }
+
+  public start() {
+    if (this._isRunning)
+      return;
+    this._isRunning = true;
+    // The time spent paused doesn't count as a delta time.
+    this._lastFrameTime = null;
+    this._requestId = requestAnimationFrame(this._onAnimationFrame);
+  }
+
+  public pause() {
+    this._isRunning = false;
+    if (this._requestId !== null)
+      cancelAnimationFrame(this._requestId);
+    this._requestId = null;
+  }
+
+  public resume() {
+    this.start();
+  }
+
+  // Update and draw a single frame. This is also useful when the loop is
+  // paused, for example to draw the scene once after loading it.
+  public step(deltaTime: number) {
+    this.time += deltaTime;
+
+    // Nodes might be added or removed during the update, so we collect them
+    // first.
+    const queue = this._updateQueue;
+    this.tree.root.recursively(node => {
+      if (isUpdatable(node))
+        queue.push(node);
+    });
+    for (const node of queue)
+      if (node.tree === this.tree)
+        node.update(deltaTime);
+    queue.length = 0;
+    this.onUpdate.emit(deltaTime);
+
+    if (this.drawOnDemand && this.tree.needsRedraw === false)
+      return;
+    startDrawing();
+    this.tree.draw();
+    finishDrawing();
+  }
+
+  _onAnimationFrame = (now: number) => {
+    this._requestId = requestAnimationFrame(this._onAnimationFrame);
+
+    if (this._lastFrameTime === null) {
+      // This is the first frame (after starting or resuming).
+      this._lastFrameTime = now;
+      this.step(0);
+      return;
+    }
+
+    // Skip animation frames until it's time for the next one. We allow a
+    // little slack because animation frames don't arrive at exact times.
+    const elapsed = now - this._lastFrameTime;
+    if (this.targetFramerate && elapsed < 900 / this.targetFramerate)
+      return;
+
+    this._lastFrameTime = now;
+    this.step(Math.min(elapsed / 1000, this.maxDeltaTime));
+  };
+}
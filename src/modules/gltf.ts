@@ -175,6 +175,7 @@ function loadGeometry(
   }
   const vertexCount = attribs[0].getCount();
 
+  let positions: IntoBufferObject|null = null;
   const vertices = attribs.map((attrib, i) => {
     console.assert(
       attrib.getCount() === vertexCount,
@@ -185,11 +186,20 @@ function loadGeometry(
     );
     const name = normalizeBufferName(attribNames[i]);
     const bufferData = gatherVertexBufferData(attrib);
+    if (name === "position")
+      positions = bufferData;
     const buffer = VertexBuffer.from(bufferData);
     return [name, buffer] as [string, VertexBuffer];
   });
 
-  return new Geometry(vertexCount, vertices, indexCount, indices);
+  const geometry = new Geometry(vertexCount, vertices, indexCount, indices);
+  if (indexList)
+    geometry.keepIndices(indexList);
+  if (positions) {
+    const {data, type} = positions as IntoBufferObject;
+    geometry.computeBounds(data as number[], type.elemCount);
+  }
+  return geometry;
 }
 
 // This function turns buffer names like `POSITION` and `TEXCOORD_0` into
@@ -30,7 +30,11 @@ export function initLambertian3D(
     `, `
     varying vec2 _texcoord;
     uniform sampler2D color_texture;
-    void surface() { SURFACE_COLOR = texture2D(color_texture, _texcoord).rgb; }
+    void surface() {
+      vec4 sample = texture2D(color_texture, _texcoord);
+      SURFACE_COLOR = sample.rgb;
+      SURFACE_ALPHA = sample.a;
+    }
     `, pointLightsMax, directionalLightsMax
   );
 
@@ -112,12 +116,20 @@ function createLambertianSurfaceShader(
     varying vec3 _normal;
     
     vec3 SURFACE_COLOR;  // This should be set by the surface shader.
+    float SURFACE_ALPHA = 1.0;  // This can be set by the surface shader.
+    
+    // For transparency (see BlendMode)
+    uniform float opacity;
+    uniform float alpha_cutoff;
     
     ${fragmentSurfaceShader}
     
     void main() {
       vec3 color = vec3(0);
       surface();
+      float alpha = SURFACE_ALPHA * opacity;
+      if (alpha < alpha_cutoff)
+        discard;
       
       for (int i = 0; i < ${directionalLightsMax}; i++) {
         float lightness = dot(_normal, -directionalLights[i].direction);
@@ -134,7 +146,7 @@ function createLambertianSurfaceShader(
         color += clamp(c, vec3(0), vec3(1));
       }
       
-      gl_FragColor = vec4(color, 1);
+      gl_FragColor = vec4(color, alpha);
     }
     `;
 
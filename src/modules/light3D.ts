@@ -1,7 +1,7 @@
 import {Node3D, SceneTree3D} from "./3D.ts";
-import {vec3, vec4} from "../math/vec.ts";
+import {vec3, Vec3, vec4} from "../math/vec.ts";
 import {
-  EnvironmentUniforms, GL, SceneTree, UniformTypeAndValueTuple
+  CloneOptions, EnvironmentUniforms, GL, SceneTree, UniformTypeAndValueTuple
 } from "./core.ts";
 import {Matrix3, Matrix4} from "../math/matrix.ts";
 
@@ -39,8 +39,7 @@ export class Light3DExtension {
     // Note that these uniforms are arrays of structs, so on the Javascript side
     // we pass in an array of objects.
     const directionalLights = this.directionalLights.map(light => {
-      const tf = light.globalTransform;
-      const direction = tf.transform(vec4(0,0,-1,0)).normalized().xyz;
+      const direction = light.getDirection();
       const color = light.color.mult(light.intensity);
       return {
         direction: [GL.FLOAT_VEC3, direction] as UniformTypeAndValueTuple,
@@ -72,26 +71,47 @@ export class Light3DExtension {
 // Light3D
 
 export class Light3D extends Node3D {
-  public intensity = 1;
-  public color = vec3(1);
-
-  _setTree(tree: SceneTree|null) {
-    // Remove the light from the old scene.
-    if (this.tree)
-      this._unhook(Light3DExtension.get(this.tree));
-
-    super._setTree(tree);
+  _intensity = 1;
+  _color = vec3(1);
 
-    // Add the light to the new scene.
-    if (this.tree) {
+  public constructor(name?: string) {
+    super(name);
+    this.onEnterTree.connect(tree => {
       console.assert(
-        Light3DExtension.isInitialized(this.tree),
+        Light3DExtension.isInitialized(tree),
         "A Light3D was added to a scene tree that did not yet have " +
         "Light3DExtension data! Call Light3DExtension.init before adding " +
         "lights."
       );
-      this._hook(Light3DExtension.get(this.tree));
-    }
+      this._hook(Light3DExtension.get(tree));
+    });
+    this.onExitTree.connect(tree => this._unhook(Light3DExtension.get(tree)));
+  }
+
+  _cloneWithoutChildren(opts: CloneOptions): this {
+    const copy = super._cloneWithoutChildren(opts);
+    copy.intensity = this.intensity;
+    copy.color = this.color.clone();
+    return copy;
+  }
+
+  public get intensity(): number {
+    return this._intensity;
+  }
+
+  public set intensity(intensity: number) {
+    this._intensity = intensity;
+    this.tree?.requestRedraw?.();
+  }
+
+  // If you change the color in place, call `requestRedraw` on the tree.
+  public get color(): Vec3 {
+    return this._color;
+  }
+
+  public set color(color: Vec3) {
+    this._color = color;
+    this.tree?.requestRedraw?.();
   }
 
   _hook(lights: Light3DExtension) {}
@@ -114,6 +134,36 @@ export class PointLight3D extends Light3D {
 }
 
 export class DirectionalLight3D extends Light3D {
+  // If a target is set, the light always shines towards that global position
+  // (even when the light or the target moves). Otherwise the light shines
+  // along its -Z axis.
+  _target: Vec3|null = null;
+
+  _cloneWithoutChildren(opts: CloneOptions): this {
+    const copy = super._cloneWithoutChildren(opts);
+    copy.target = this.target && Vec3.from(this.target);
+    return copy;
+  }
+
+  public get target(): Vec3|null {
+    return this._target;
+  }
+
+  public set target(target: Vec3|null) {
+    this._target = target;
+    this.tree?.requestRedraw?.();
+  }
+
+  public getDirection(): Vec3 {
+    if (this.target) {
+      const direction = this.target.sub(this.globalPosition);
+      if (direction.squareLength() > 0)
+        return Vec3.from(direction.normalized());
+    }
+    const tf = this.globalTransform;
+    return tf.transform(vec4(0,0,-1,0)).normalized().xyz;
+  }
+
   _hook(lights: Light3DExtension) {
     lights.directionalLights.push(this);
   }
@@ -0,0 +1,155 @@
+import {
+  BlendMode, GL, Geometry, Material, Mesh, Node, Shader, Submesh, bindMachine,
+  finishDrawing, startDrawing
+} from "./core.ts";
+import {Camera3D, MeshNode3D, SceneTree3D} from "./3D.ts";
+import {LODMetric, LODNode3D} from "./lod3D.ts";
+import {initFakeGraphics} from "../../test/fake_gl.ts";
+import {vec3} from "../math/vec.ts";
+
+initFakeGraphics();
+
+const shader = new Shader("", "");
+
+// A row of `count` triangles, so the number of draw calls tells which level
+// was drawn.
+function createRow(count: number, name?: string): Mesh {
+  const submeshes = [];
+  for (let x = 0; x < count; x++) {
+    const geometry = Geometry.from(3,
+      ["position", GL.FLOAT_VEC3, [x,0,0,  x,1,0,  x+1,0,0]]
+    );
+    submeshes.push(new Submesh(geometry, new Material(shader)));
+  }
+  return new Mesh(submeshes, name);
+}
+
+// Three levels that start at the distances 0, 10 and 20.
+function createScene() {
+  const tree = new SceneTree3D();
+  const camera = Camera3D.Perspective();
+  tree.root.addChild(camera);
+  const lod = new LODNode3D("lod");
+  lod.metric = LODMetric.DISTANCE;
+  lod.levels = [3, 2, 1].map((count, i) => (
+    {mesh: createRow(count), threshold: 10 * i}
+  ));
+  lod.frustumCulled = false;
+  tree.root.addChild(lod);
+  return {tree, camera, lod};
+}
+
+// Returns the index of the level that the camera drew.
+function drawLevel(tree: SceneTree3D, camera: Camera3D, distance: number) {
+  camera.position = vec3(0, 0, distance);
+  startDrawing();
+  tree.draw({camera});
+  finishDrawing();
+  return 3 - bindMachine.stats.drawCalls;
+}
+
+describe("LODNode3D", () => {
+  test("Distance", () => {
+    const {tree, camera} = createScene();
+    const levels = [5, 15, 25].map(distance =>
+      drawLevel(tree, camera, distance)
+    );
+    expect(levels).toEqual([0, 1, 2]);
+  });
+
+  test("Screen size", () => {
+    const {tree, camera, lod} = createScene();
+    lod.metric = LODMetric.SCREEN_SIZE;
+    drawLevel(tree, camera, 10);
+    const near = lod.getMetricValue(tree);
+    drawLevel(tree, camera, 20);
+    expect(lod.getMetricValue(tree) / near).toBeCloseTo(0.5);
+    // The sphere reaches behind the camera.
+    drawLevel(tree, camera, 0);
+    expect(lod.getMetricValue(tree)).toBe(Infinity);
+
+    lod.levels.forEach((level, i) => level.threshold = 0.5 ** i);
+    expect([0.6, 0.4, 0.2].map(size => lod._chooseLevel(size, 0)))
+      .toEqual([0, 1, 2]);
+  });
+
+  test("Hysteresis", () => {
+    const {tree, camera} = createScene();
+    // Levels only change once their threshold is passed by 10%, both ways.
+    const distances = [10.5, 11, 9.5, 8.9, 25, 19, 17.9];
+    const levels = distances.map(distance =>
+      drawLevel(tree, camera, distance)
+    );
+    expect(levels).toEqual([0, 1, 1, 0, 2, 2, 1]);
+  });
+
+  test("Every camera has its own level", () => {
+    const {tree, camera, lod} = createScene();
+    const far = Camera3D.Perspective();
+    far.isActive = false;
+    tree.root.addChild(far);
+    expect(drawLevel(tree, far, 25)).toBe(2);
+    expect(drawLevel(tree, camera, 5)).toBe(0);
+    // The far camera is still past the hysteresis of its own level.
+    expect(drawLevel(tree, far, 19)).toBe(2);
+
+    // The node's bounds are those of the first level, whichever camera drew
+    // it last.
+    expect(lod.mesh).toBe(lod.levels[0].mesh);
+    expect(lod.getLocalBounds().max.x).toBe(3);
+  });
+
+  test("Checking for changes uses the level that was drawn", () => {
+    const triangleAt = (x: number) => new Mesh([new Submesh(
+      Geometry.from(3,
+        ["position", GL.FLOAT_VEC3, [x,0,0,  x,1,0,  x+1,0,0]]
+      ),
+      new Material(shader)
+    )]);
+    for (const farInView of [false, true]) {
+      const tree = new SceneTree3D();
+      const camera = Camera3D.Perspective();
+      tree.root.addChild(camera);
+      const lod = new LODNode3D("lod");
+      lod.metric = LODMetric.DISTANCE;
+      const [near, far] = farInView ? [1000, 0] : [0, 1000];
+      lod.levels = [
+        {mesh: triangleAt(near), threshold: 0},
+        {mesh: triangleAt(far), threshold: 10}
+      ];
+      tree.root.addChild(lod);
+
+      // The far level is drawn, and culled unless it is in view.
+      drawLevel(tree, camera, 25);
+      expect(bindMachine.stats.drawCalls).toBe(farInView ? 1 : 0);
+      expect(tree.needsRedraw).toBe(false);
+      lod.uniforms.set("color", GL.FLOAT_VEC3, vec3(1, 0, 0));
+      expect(tree.needsRedraw).toBe(farInView);
+
+      // Levels that weren't drawn are never bound, so their changes would
+      // ask for a redraw forever.
+      drawLevel(tree, camera, 25);
+      lod.levels[0].mesh.submeshes[0].material.blendMode = BlendMode.OPAQUE;
+      expect(tree.needsRedraw).toBe(false);
+      lod.levels[1].mesh.submeshes[0].material.blendMode = BlendMode.OPAQUE;
+      expect(tree.needsRedraw).toBe(farInView);
+    }
+  });
+
+  test("groupLevels", () => {
+    const root = new Node("root");
+    root.addChild(new Node("before"));
+    for (const i of [1, 0])
+      root.addChild(MeshNode3D.from(createRow(3 - i), `Body_LOD${i}`));
+    root.children[1].addChild(new Node("child"));
+
+    const [lod] = LODNode3D.groupLevels(root);
+    expect(root.children.map(child => child.name))
+      .toEqual(["before", "Body"]);
+    expect(lod.levels.map(level => level.mesh.submeshes.length))
+      .toEqual([3, 2]);
+    expect(lod.levels.map(level => level.threshold)).toEqual([1, 0.5]);
+    expect(lod.mesh).toBe(lod.levels[0].mesh);
+    expect(lod.children.map(child => child.name)).toEqual(["child"]);
+  });
+});
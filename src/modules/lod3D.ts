@@ -0,0 +1,181 @@
+import {CloneOptions, Mesh, Node, RenderQueue} from "./core.ts";
+import {Camera3D, MeshNode3D, SceneTree3D} from "./3D.ts";
+import {Matrix4} from "../math/matrix.ts";
+
+// Levels of detail: a LODNode3D swaps to simpler meshes when it's far away or
+// small on the screen, which saves a lot of work on slow devices.
+
+export enum LODMetric {
+  // The distance between the camera and the node's origin.
+  DISTANCE,
+  // The fraction of the viewport's height that the bounding sphere of the
+  // first level covers (so 1 fills the screen vertically).
+  SCREEN_SIZE
+}
+
+export interface LODLevel {
+  mesh: Mesh,
+  // Where this level starts. With DISTANCE, a level is used from its distance
+  // onwards, so the thresholds should increase. With SCREEN_SIZE, a level is
+  // used below its screen size, so the thresholds should decrease. The
+  // threshold of the first level is ignored.
+  threshold: number
+}
+
+// The levels go from the most to the least detailed one. The level is chosen
+// separately for every camera that draws the node, but `mesh` is always the
+// first level, so the node's bounds, raycasts and picking don't depend on which
+// camera drew it last.
+export class LODNode3D extends MeshNode3D {
+  public levels: LODLevel[] = [];
+  public metric = LODMetric.SCREEN_SIZE;
+  // To keep nodes from flickering between two levels when they're right at a
+  // threshold, the threshold has to be passed by this fraction of it.
+  public hysteresis = 0.1;
+  // Cameras that are thrown away don't have to be forgotten here.
+  _levelByCamera = new WeakMap<Camera3D, number>();
+
+  // Replaces sibling MeshNode3Ds that are named like "Body_LOD0", "Body_LOD1",
+  // etc. with a LODNode3D called "Body", and returns the new nodes. This is
+  // how levels of detail are usually exported, so after loading a .mesh file
+  // you can call `LODNode3D.groupLevels(scene)`.
+  // The new node gets the transform and the uniforms of LOD0, and the children
+  // of all the levels. By default, each level starts at half the screen size
+  // of the one before it.
+  public static groupLevels(root: Node): LODNode3D[] {
+    const groups = new Map<Node, Map<string, [number, MeshNode3D][]>>();
+    root.recursively(node => {
+      const match = node.name.match(/^(.*)_LOD(\d+)$/);
+      if (!match || !node.parent || !(node instanceof MeshNode3D))
+        return;
+      const siblings = groups.get(node.parent) ?? new Map();
+      groups.set(node.parent, siblings);
+      const [_, name, level] = match;
+      const group = siblings.get(name) ?? [];
+      siblings.set(name, group);
+      group.push([Number(level), node]);
+    });
+
+    const result: LODNode3D[] = [];
+    for (const [parent, siblings] of groups) {
+      for (const [name, group] of siblings) {
+        group.sort((a, b) => a[0] - b[0]);
+        const nodes = group.map(([_, node]) => node);
+        const lod = LODNode3D._fromLevelNodes(name, nodes);
+        parent.addChild(lod, parent.children.indexOf(nodes[0]));
+        for (const node of nodes)
+          node.remove();
+        result.push(lod);
+      }
+    }
+    return result;
+  }
+
+  static _fromLevelNodes(name: string, nodes: MeshNode3D[]): LODNode3D {
+    const first = nodes[0];
+    const lod = new LODNode3D(name);
+    lod.transform = first.transform;
+    lod.eulerOrder = first.eulerOrder;
+    lod.visible = first.visible;
+    lod.layers = first.layers;
+    lod.frustumCulled = first.frustumCulled;
+    lod.uniforms = first.uniforms.clone();
+    lod.levels = nodes
+      .filter(node => node.mesh)
+      .map((node, i) => ({mesh: node.mesh!, threshold: 0.5 ** i}));
+    for (const node of nodes)
+      for (const child of node.children.slice()) {
+        child.remove();
+        lod.addChild(child);
+      }
+    return lod;
+  }
+
+  _cloneWithoutChildren(opts: CloneOptions): this {
+    const copy = super._cloneWithoutChildren(opts);
+    copy.levels = this.levels.map(level => ({
+      ...level,
+      mesh: (opts.cloneMaterials ? level.mesh.clone(true) : level.mesh)
+    }));
+    copy.metric = this.metric;
+    copy.hysteresis = this.hysteresis;
+    return copy;
+  }
+
+  public get mesh(): Mesh|null {
+    return this.levels[0]?.mesh ?? null;
+  }
+
+  // Setting the mesh replaces the levels with just that mesh.
+  public set mesh(mesh: Mesh|null) {
+    this.levels = mesh ? [{mesh, threshold: 1}] : [];
+    this.tree?.requestRedraw?.();
+  }
+
+  // Checking whether the node changed uses the level that the camera drew, so
+  // it skips the same meshes as drawing.
+  _getDrawnMesh(camera: Camera3D|null): Mesh|null {
+    if (this.levels.length === 0)
+      return null;
+    return this.levels[this._getLevel(camera)].mesh;
+  }
+
+  public enqueue(queue: RenderQueue) {
+    if (this.levels.length === 0)
+      return;
+    const tree = this.tree as SceneTree3D;
+    const camera = tree._drawingCamera;
+    const current = this._getLevel(camera);
+    const level = this._chooseLevel(this.getMetricValue(tree), current);
+    if (camera)
+      this._levelByCamera.set(camera, level);
+    this._enqueueMesh(this.levels[level].mesh, queue);
+  }
+
+  // The level that was chosen last time for the camera. Levels might have
+  // been removed since then.
+  _getLevel(camera: Camera3D|null): number {
+    const level = (camera && this._levelByCamera.get(camera)) ?? 0;
+    return Math.min(level, this.levels.length - 1);
+  }
+
+  // The value of the metric for the camera that the tree currently uses.
+  public getMetricValue(tree: SceneTree3D): number {
+    if (this.metric === LODMetric.DISTANCE)
+      return tree._getDistanceToCamera(this._globalTransform);
+
+    const sphere =
+      this.levels[0].mesh.boundingSphere.transform(this._globalTransform);
+    if (sphere.isEmpty())
+      return Infinity;
+    const center = Matrix4.transformPoint(tree.globalToCamera, sphere.center);
+    const p = tree.cameraToClip;
+    const w = p.get2(0,3) * center.x + p.get2(1,3) * center.y
+      + p.get2(2,3) * center.z + p.get2(3,3);
+    // Spheres that reach behind the camera count as filling the screen.
+    if (w <= sphere.radius * Math.abs(p.get2(2,3)))
+      return Infinity;
+    return sphere.radius * Math.abs(p.get2(1,1)) / w;
+  }
+
+  _chooseLevel(value: number, current: number): number {
+    let level = Math.min(current, this.levels.length - 1);
+    // Switching to a less detailed level needs the threshold to be passed by
+    // the hysteresis, and so does switching back.
+    while (
+      level + 1 < this.levels.length &&
+      this._isPastThreshold(value, level + 1, this.hysteresis)
+    )
+      level++;
+    while (level > 0 && !this._isPastThreshold(value, level, -this.hysteresis))
+      level--;
+    return level;
+  }
+
+  _isPastThreshold(value: number, level: number, margin: number): boolean {
+    const threshold = this.levels[level].threshold;
+    if (this.metric === LODMetric.DISTANCE)
+      return value >= threshold * (1 + margin);
+    return value < threshold * (1 - margin);
+  }
+}
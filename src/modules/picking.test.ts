@@ -0,0 +1,125 @@
+import {
+  GL, Geometry, Material, Mesh, Node, Shader, Submesh, canvasSize
+} from "./core.ts";
+import {Camera3D, MeshNode3D, SceneTree3D} from "./3D.ts";
+import {IdPicker} from "./picking.ts";
+import {getCalls, initFakeGraphics, setReadPixel} from "../../test/fake_gl.ts";
+import {vec2, vec3} from "../math/vec.ts";
+
+const glLog = initFakeGraphics();
+
+const mesh = new Mesh([new Submesh(
+  Geometry.from(3, ["position", GL.FLOAT_VEC3, [0,0,0,  0,1,0,  1,0,0]]),
+  new Material(new Shader("", ""))
+)]);
+
+function createTree() {
+  const tree = new SceneTree3D();
+  const camera = Camera3D.Perspective();
+  camera.position = vec3(0, 0, 5);
+  tree.root.addChild(camera);
+  return {tree, camera};
+}
+
+// The color that the picker drew the node with, as bytes.
+function getPickColor(picker: IdPicker, node: MeshNode3D): number[] {
+  const index = picker._nodes.indexOf(node);
+  const color = picker._uniforms[index].uniforms.get("pick_color")!.value;
+  return Array.from(color as Float32Array).map(c => Math.round(c * 255));
+}
+
+afterEach(() => setReadPixel(() => [0, 0, 0, 0]));
+
+describe("IdPicker", () => {
+  test("Encoding & decoding IDs", () => {
+    const {tree} = createTree();
+    const nodes: MeshNode3D[] = [];
+    for (let i = 0; i < 300; i++) {
+      const node = MeshNode3D.from(mesh);
+      tree.root.addChild(node);
+      nodes.push(node);
+    }
+    const picker = new IdPicker(tree);
+    picker.render();
+
+    // The IDs start at 1, and go on in the green channel after 255.
+    expect(getPickColor(picker, nodes[0])).toEqual([1, 0, 0, 255]);
+    expect(getPickColor(picker, nodes[256])).toEqual([1, 1, 0, 255]);
+    for (const node of [nodes[0], nodes[255], nodes[299]]) {
+      setReadPixel(() => getPickColor(picker, node));
+      expect(picker.pick(vec2(10, 10))).toBe(node);
+    }
+    // Transparent black is the background.
+    setReadPixel(() => [0, 0, 0, 0]);
+    expect(picker.pick(vec2(10, 10))).toBeNull();
+  });
+
+  test("Rows are read from the bottom", () => {
+    const {tree} = createTree();
+    const picker = new IdPicker(tree);
+    const readRow = (y: number) => {
+      glLog.length = 0;
+      picker.pick(vec2(5, y));
+      return getCalls(glLog, "readPixels").map(args => args[1]);
+    };
+    const height = canvasSize.y;
+    expect(readRow(0)).toEqual([height - 1]);
+    expect(readRow(0.5)).toEqual([height - 1]);
+    expect(readRow(1)).toEqual([height - 2]);
+    expect(readRow(height - 0.5)).toEqual([0]);
+    // Positions outside of the canvas aren't read at all.
+    expect(readRow(-0.5)).toEqual([]);
+    expect(readRow(height)).toEqual([]);
+  });
+
+  test("Only nodes that the camera draws are picked", () => {
+    const {tree, camera} = createTree();
+    camera.cullMask = 1;
+    const shown = MeshNode3D.from(mesh, "shown");
+    const hidden = MeshNode3D.from(mesh, "hidden");
+    hidden.visible = false;
+    hidden.addChild(MeshNode3D.from(mesh, "hiddenChild"));
+    const otherLayer = MeshNode3D.from(mesh, "otherLayer");
+    otherLayer.layers = 2;
+    otherLayer.addChild(MeshNode3D.from(mesh, "otherLayerChild"));
+    const group = new Node("group");
+    const noMesh = new MeshNode3D("noMesh");
+    group.addChild(noMesh);
+    for (const node of [shown, hidden, otherLayer, group])
+      tree.root.addChild(node);
+
+    const picker = new IdPicker(tree);
+    picker.render();
+    expect(picker._nodes.map(node => node.name))
+      .toEqual(["shown", "otherLayerChild"]);
+  });
+
+  test("The IDs are only drawn again after a redraw was requested", () => {
+    const {tree} = createTree();
+    const node = MeshNode3D.from(mesh);
+    tree.root.addChild(node);
+    const picker = new IdPicker(tree);
+    const countRenders = (run: () => void) => {
+      glLog.length = 0;
+      run();
+      return getCalls(glLog, "clear").length;
+    };
+
+    expect(countRenders(() => picker.pick(vec2(1, 1)))).toBe(1);
+    expect(countRenders(() => {
+      picker.pick(vec2(1, 1));
+      picker.pick(vec2(2, 2));
+      picker.render();
+    })).toBe(0);
+    node.position = vec3(1, 0, 0);
+    expect(countRenders(() => {
+      picker.pick(vec2(1, 1));
+      picker.pick(vec2(2, 2));
+    })).toBe(1);
+
+    // A disposed picker doesn't listen anymore.
+    picker.dispose();
+    node.position = vec3(2, 0, 0);
+    expect(picker._isOutdated).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  GL, gl, bindMachine, canvasSize, addDefaultUniformSources, clearViewport,
+  InstanceUniforms, Material, Node, Shader, UniformSource
+} from "./core.ts";
+import {ALL_LAYERS, MeshNode3D, SceneTree3D} from "./3D.ts";
+import {Matrix4} from "../math/matrix.ts";
+import {Vec2, vec4} from "../math/vec.ts";
+
+// GPU picking: every mesh is drawn in a flat color that encodes its ID into an
+// offscreen framebuffer, and then we read the color under the cursor. Unlike
+// raycasting, this also works for shaders that move vertices around, and its
+// speed doesn't depend on how many triangles there are.
+
+const idVertexSource = `
+attribute vec3 position;
+uniform mat4 local_to_clip;
+
+void main() {
+  gl_Position = local_to_clip * vec4(position, 1.0);
+}
+`;
+const idFragmentSource = `
+precision highp float;
+uniform vec4 pick_color;
+
+void main() {
+  gl_FragColor = pick_color;
+}
+`;
+
+let idShader: Shader|null = null;
+
+export class IdPicker {
+  public tree: SceneTree3D;
+  _material: Material;
+  _framebuffer: WebGLFramebuffer;
+  _colorTexture: WebGLTexture;
+  _depthBuffer: WebGLRenderbuffer;
+  _size = new Vec2(0, 0);
+  // Node i is drawn with the ID i+1 (zero means that nothing is there).
+  _nodes: MeshNode3D[] = [];
+  // Each node gets its own uniforms, so that the picker doesn't change the
+  // uniforms that the node is drawn with. These are reused between renders.
+  _uniforms: InstanceUniforms[] = [];
+  _localToClip = Matrix4.identity.clone();
+  _pixel = new Uint8Array(4);
+  _isOutdated = true;
+  _disconnect: () => void;
+
+  public constructor(tree: SceneTree3D) {
+    this.tree = tree;
+    if (!idShader) {
+      idShader = new Shader(idVertexSource, idFragmentSource);
+      addDefaultUniformSources(["pick_color", UniformSource.INSTANCE]);
+    }
+    this._material = new Material(idShader);
+    this._framebuffer = gl.createFramebuffer()!;
+    this._colorTexture = gl.createTexture()!;
+    this._depthBuffer = gl.createRenderbuffer()!;
+    // The IDs only have to be drawn again after something changed.
+    this._disconnect =
+      tree.onRedrawRequested.connect(() => this._isOutdated = true);
+  }
+
+  // Returns the MeshNode3D at a screen position (in pixels, with (0,0) in the
+  // top left corner), or null if there's nothing there.
+  public pick(screenPosition: Vec2): MeshNode3D|null {
+    // The rows of the framebuffer go from the bottom to the top.
+    const x = Math.floor(screenPosition.x);
+    const y = canvasSize.y - 1 - Math.floor(screenPosition.y);
+    if (x < 0 || y < 0 || x >= canvasSize.x || y >= canvasSize.y)
+      return null;
+
+    this.render();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this._framebuffer);
+    gl.readPixels(x, y, 1, 1, GL.RGBA, GL.UNSIGNED_BYTE, this._pixel);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+    const [r, g, b] = this._pixel;
+    const id = r | (g << 8) | (b << 16);
+    return this._nodes[id - 1] ?? null;
+  }
+
+  // Draws the IDs if anything changed since last time. `pick` calls this, so
+  // you only need it to render ahead of time.
+  public render() {
+    if (!canvasSize.equals(this._size))
+      this._resize();
+    else if (!this._isOutdated)
+      return;
+    this._isOutdated = false;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this._framebuffer);
+    gl.viewport(0, 0, this._size.x, this._size.y);
+    clearViewport(vec4(0, 0, 0, 0));
+
+    bindMachine.setEnvironment(this.tree.uniforms);
+    this._nodes.length = 0;
+    const cullMask = this.tree.camera3D?.cullMask ?? ALL_LAYERS;
+    this._collectNodes(this.tree.root, cullMask);
+    this._nodes.forEach((node, i) => this._drawNode(node, i + 1));
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, canvasSize.x, canvasSize.y);
+  }
+
+  // Frees the GPU resources. The picker can't be used afterwards.
+  public dispose() {
+    this._disconnect();
+    gl.deleteFramebuffer(this._framebuffer);
+    gl.deleteTexture(this._colorTexture);
+    gl.deleteRenderbuffer(this._depthBuffer);
+  }
+
+  _collectNodes(node: Node, cullMask: number) {
+    if (!node.visible)
+      return;
+    if (node instanceof MeshNode3D && node.mesh && (node.layers & cullMask))
+      this._nodes.push(node);
+    for (const child of node.children)
+      this._collectNodes(child, cullMask);
+  }
+
+  _drawNode(node: MeshNode3D, id: number) {
+    const uniforms = this._uniforms[id - 1] ??= new InstanceUniforms();
+    const localToClip = this.tree.globalToClip.multInto(
+      node._globalTransform, this._localToClip
+    );
+    uniforms.set("local_to_clip", GL.FLOAT_MAT4, localToClip);
+    uniforms.set("pick_color", GL.FLOAT_VEC4, vec4(
+      (id & 0xFF) / 255, ((id >> 8) & 0xFF) / 255, ((id >> 16) & 0xFF) / 255, 1
+    ));
+
+    // Only the positions are needed, so the submeshes' geometry is bound
+    // without their VAOs (which belong to their own shaders).
+    bindMachine.setInstanceUniforms(uniforms);
+    bindMachine.setMaterial(this._material);
+    bindMachine.setVao(null);
+    for (const submesh of node.mesh!.submeshes) {
+      bindMachine.setGeometryWithoutVao(submesh.geometry);
+      submesh.geometry.draw();
+    }
+  }
+
+  _resize() {
+    this._size = new Vec2(canvasSize.x, canvasSize.y);
+    this._isOutdated = true;
+
+    gl.bindTexture(GL.TEXTURE_2D, this._colorTexture);
+    gl.texImage2D(
+      GL.TEXTURE_2D, 0, GL.RGBA, this._size.x, this._size.y, 0, GL.RGBA,
+      GL.UNSIGNED_BYTE, null
+    );
+    gl.texParameteri(GL.TEXTURE_2D, GL.TEXTURE_MIN_FILTER, GL.NEAREST);
+    gl.texParameteri(GL.TEXTURE_2D, GL.TEXTURE_MAG_FILTER, GL.NEAREST);
+    gl.texParameteri(GL.TEXTURE_2D, GL.TEXTURE_WRAP_S, GL.CLAMP_TO_EDGE);
+    gl.texParameteri(GL.TEXTURE_2D, GL.TEXTURE_WRAP_T, GL.CLAMP_TO_EDGE);
+
+    gl.bindRenderbuffer(gl.RENDERBUFFER, this._depthBuffer);
+    gl.renderbufferStorage(
+      gl.RENDERBUFFER, gl.DEPTH_COMPONENT16, this._size.x, this._size.y
+    );
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this._framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, GL.TEXTURE_2D,
+      this._colorTexture, 0
+    );
+    gl.framebufferRenderbuffer(
+      gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, this._depthBuffer
+    );
+    console.assert(
+      gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE,
+      "The framebuffer for picking is incomplete."
+    );
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+}
@@ -0,0 +1,125 @@
+import {GL, Mesh, Node} from "./core.ts";
+import {Camera3D, CameraProjection, MeshNode3D, Node3D} from "./3D.ts";
+import {DirectionalLight3D, PointLight3D} from "./light3D.ts";
+import {LODMetric, LODNode3D} from "./lod3D.ts";
+import {
+  deserializeScene, registerNodeType, serializeScene, SceneJson
+} from "./scene_json.ts";
+import {vec3} from "../math/vec.ts";
+import {EulerOrder} from "../math/euler.ts";
+
+function createScene(mesh: Mesh): Node {
+  const root = new Node3D("root");
+  const body = MeshNode3D.from(mesh, "Body");
+  body.position = vec3(1, 2, 3);
+  body.eulerOrder = EulerOrder.YXZ;
+  body.eulerAngles = vec3(0.1, 0.2, 0.3);
+  body.frustumCulled = false;
+  body.uniforms.set("color", GL.FLOAT_VEC3, vec3(1, 0.5, 0));
+  root.addChild(body);
+
+  const hidden = new Node("Hidden");
+  hidden.visible = false;
+  hidden.layers = 5;
+  body.addChild(hidden);
+
+  const camera = Camera3D.Perspective({fovY: 1, near: 0.5, far: 50});
+  camera.cullMask = 3;
+  root.addChild(camera);
+
+  const light = new PointLight3D("Lamp");
+  light.intensity = 2;
+  light.color = vec3(1, 0.9, 0.8);
+  root.addChild(light);
+  const sun = new DirectionalLight3D("Sun");
+  sun.target = vec3(0, -1, 0);
+  root.addChild(sun);
+  return root;
+}
+
+describe("Scene JSON", () => {
+  test("Round trip", () => {
+    const mesh = new Mesh([], "crate");
+    const json = serializeScene(createScene(mesh));
+    const loaded = deserializeScene(json, {
+      getMesh: key => (key === "crate" ? mesh : undefined)
+    });
+    expect(serializeScene(loaded)).toBe(json);
+
+    expect(loaded.children.map(child => child.name))
+      .toEqual(["Body", "camera", "Lamp", "Sun"]);
+    const body = loaded.getNode("Body", MeshNode3D);
+    expect(body.mesh).toBe(mesh);
+    expect(body.position.sub(vec3(1, 2, 3)).length()).toBeLessThan(1e-6);
+    expect(body.eulerOrder).toBe(EulerOrder.YXZ);
+    expect(body.eulerAngles.sub(vec3(0.1, 0.2, 0.3)).length())
+      .toBeLessThan(1e-5);
+    expect(body.frustumCulled).toBe(false);
+    const hidden = body.getNode("Hidden");
+    expect(hidden.constructor).toBe(Node);
+    expect(hidden.visible).toBe(false);
+    expect(hidden.layers).toBe(5);
+
+    const camera = loaded.getNode("camera", Camera3D);
+    expect(camera.projection).toBe(CameraProjection.PERSPECTIVE);
+    expect(camera.opts).toEqual({fovY: 1, near: 0.5, far: 50});
+    expect(camera.cullMask).toBe(3);
+    const light = loaded.getNode("Lamp", PointLight3D);
+    expect(light.intensity).toBe(2);
+    expect(loaded.getNode("Sun", DirectionalLight3D).target!.y).toBe(-1);
+  });
+
+  test("LODNode3D", () => {
+    const meshes = [new Mesh([], "high"), new Mesh([], "low")];
+    const lod = new LODNode3D("Tree");
+    lod.levels = [
+      {mesh: meshes[0], threshold: 0}, {mesh: meshes[1], threshold: 30}
+    ];
+    lod.metric = LODMetric.DISTANCE;
+    lod.hysteresis = 0.2;
+    const json = serializeScene(lod);
+    const loaded = deserializeScene(json, {
+      getMesh: key => meshes.find(mesh => mesh.name === key)
+    });
+    expect(serializeScene(loaded)).toBe(json);
+    expect(loaded).toBeInstanceOf(LODNode3D);
+    const loadedLod = loaded as LODNode3D;
+    expect(loadedLod.levels).toEqual(lod.levels);
+    expect(loadedLod.metric).toBe(LODMetric.DISTANCE);
+    expect(loadedLod.hysteresis).toBe(0.2);
+  });
+
+  test("Custom node types", () => {
+    class Counter extends Node {
+      count = 0;
+    }
+    registerNodeType("Counter", {
+      type: Counter,
+      save: counter => ({count: counter.count}),
+      load: (counter, data) => counter.count = data.count
+    });
+    const counter = new Counter("counter");
+    counter.count = 3;
+    const loaded = deserializeScene(serializeScene(counter));
+    expect(loaded).toBeInstanceOf(Counter);
+    expect((loaded as Counter).count).toBe(3);
+  });
+
+  test("Per-draw uniforms aren't saved", () => {
+    const node = MeshNode3D.from(new Mesh([], "crate"), "Body");
+    node.uniforms.set("local_to_clip", GL.FLOAT, 1);
+    node.uniforms.set("roughness", GL.FLOAT, 0.5);
+    const scene: SceneJson = JSON.parse(serializeScene(node));
+    expect(scene.root.uniforms!.map(([name]) => name)).toEqual(["roughness"]);
+  });
+
+  test("Errors", () => {
+    expect(() => serializeScene(MeshNode3D.from(new Mesh([]))))
+      .toThrow("has no asset key");
+    const data = {type: "Robot", name: "R2", children: []};
+    expect(() => deserializeScene({version: 1, root: data}))
+      .toThrow("Unknown node type “Robot” for the node “R2”.");
+    expect(() => deserializeScene({version: 2, root: data}))
+      .toThrow("Can't load a scene with version 2");
+  });
+});
@@ -0,0 +1,324 @@
+import {Matrix4} from "../math/matrix.ts";
+import {Vec3, Vec3Tuple} from "../math/vec.ts";
+import {EulerOrder} from "../math/euler.ts";
+import {
+  IntoNamedUniformTuple, Mesh, Node, NodeType, Texture
+} from "./core.ts";
+import {Camera3D, CameraProjection, MeshNode3D, Node3D} from "./3D.ts";
+import {DirectionalLight3D, Light3D, PointLight3D} from "./light3D.ts";
+import {LODLevel, LODNode3D} from "./lod3D.ts";
+import {NodeData} from "./btoc/btoc_mesh.ts";
+
+
+// The JSON structure
+
+export interface SceneJson {
+  version: number,
+  root: SceneNodeData
+}
+
+// This is the same as btoc's NodeData, except that meshes are referenced by
+// asset key (instead of an index in the file) and that more is stored.
+export interface SceneNodeData extends Omit<NodeData, "children" | "mesh"> {
+  type: string,  // The name the node type was registered with
+  children: SceneNodeData[],
+  mesh?: string,
+  visible?: boolean,
+  layers?: number,
+  eulerOrder?: EulerOrder,
+  frustumCulled?: boolean,
+  uniforms?: IntoNamedUniformTuple[],
+  // Anything else that's specific to the node type.
+  data?: unknown
+}
+
+const VERSION = 1;
+
+// These instance uniforms are set again every time a mesh is drawn, so there's
+// no point in saving them.
+const perDrawUniforms =
+  new Set(["local_to_global", "local_to_clip", "normal_local_to_global"]);
+
+
+// Node types
+// Every node class that can be saved needs to be registered. The built-in ones
+// are registered at the bottom of this file.
+
+// `Data` is what `save` returns and what `load` gets back, so it has to
+// survive being turned into JSON.
+export interface NodeTypeInfo<T extends Node, Data = unknown> {
+  type: NodeType<T>,
+  // By default, nodes are created with `new type(name)`.
+  create?: (name: string) => T,
+  // These save and load whatever is specific to the node type (the name,
+  // transform, mesh, etc. are handled automatically). They get the options
+  // for types that reference other meshes.
+  save?: (node: T, opts: SaveSceneOptions) => Data,
+  load?: (node: T, data: Data, opts: LoadSceneOptions) => void
+}
+
+const nodeTypes = new Map<string, NodeTypeInfo<Node>>();
+
+export function registerNodeType<T extends Node, Data>(
+  name: string, info: NodeTypeInfo<T, Data>
+) {
+  // Nodes are only passed to the functions of their own type, and the data
+  // is only passed to `load` of the type whose `save` returned it.
+  nodeTypes.set(name, info as unknown as NodeTypeInfo<Node>);
+}
+
+// Finds the registered type that's the closest to the node's actual class.
+function getNodeTypeName(node: Node): string {
+  for (
+    let proto = Object.getPrototypeOf(node);
+    proto;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (const [name, info] of nodeTypes) {
+      if (info.type.prototype !== proto)
+        continue;
+      if (proto !== Object.getPrototypeOf(node)) {
+        console.warn(
+          `The node type ${node.constructor.name} was not registered, so ` +
+          `“${node.getPath()}” is saved as a ${name}.`
+        );
+      }
+      return name;
+    }
+  }
+  throw new Error(`No node type was registered for “${node.getPath()}”.`);
+}
+
+
+// Saving
+
+export interface SaveSceneOptions {
+  // Returns the asset key of a mesh (this is the mesh's name by default).
+  getMeshKey?: (mesh: Mesh) => string|undefined
+}
+
+export function serializeScene(
+  root: Node, opts: SaveSceneOptions = {}
+): string {
+  const scene: SceneJson = {version: VERSION, root: saveBranch(root, opts)};
+  return JSON.stringify(scene);
+}
+
+function saveBranch(node: Node, opts: SaveSceneOptions): SceneNodeData {
+  const type = getNodeTypeName(node);
+  const result: SceneNodeData = {
+    type,
+    name: node.name,
+    children: node.children.map(child => saveBranch(child, opts))
+  };
+  if (!node.visible)
+    result.visible = false;
+  if (node.layers !== 1)
+    result.layers = node.layers;
+
+  if (node instanceof Node3D) {
+    result.transform = Array.from(node._transform.elems);
+    if (node.eulerOrder !== EulerOrder.XYZ)
+      result.eulerOrder = node.eulerOrder;
+  }
+
+  if (node instanceof MeshNode3D) {
+    if (node.mesh)
+      result.mesh = getMeshKey(node, node.mesh, opts);
+    if (!node.frustumCulled)
+      result.frustumCulled = false;
+    result.uniforms = saveUniforms(node);
+  }
+
+  const data = nodeTypes.get(type)!.save?.(node, opts);
+  if (data !== undefined)
+    result.data = data;
+  return result;
+}
+
+function getMeshKey(node: Node, mesh: Mesh, opts: SaveSceneOptions): string {
+  const key = opts.getMeshKey?.(mesh) ?? mesh.name;
+  if (key === undefined) {
+    throw new Error(
+      `The mesh of “${node.getPath()}” has no asset key, so it can't be ` +
+      `saved. Give the mesh a name or pass a getMeshKey function.`
+    );
+  }
+  return key;
+}
+
+function saveUniforms(node: MeshNode3D): IntoNamedUniformTuple[] {
+  const result: IntoNamedUniformTuple[] = [];
+  for (const [name, uniform] of node.uniforms.uniforms) {
+    if (perDrawUniforms.has(name))
+      continue;
+    if (uniform.value instanceof Texture) {
+      console.warn(
+        `The texture uniform “${name}” of “${node.getPath()}” can't be ` +
+        `saved.`
+      );
+      continue;
+    }
+    const value = Array.from(uniform.value);
+    result.push([name, uniform.type.type, value, uniform.type.size]);
+  }
+  return result;
+}
+
+
+// Loading
+
+export interface LoadSceneOptions {
+  // Returns the mesh for an asset key.
+  getMesh?: (key: string) => Mesh|undefined
+}
+
+export function deserializeScene(
+  json: string|SceneJson, opts: LoadSceneOptions = {}
+): Node {
+  const scene = (typeof json === "string" ? JSON.parse(json) : json);
+  if (scene.version !== VERSION) {
+    throw new Error(
+      `Can't load a scene with version ${scene.version} (only version ` +
+      `${VERSION} is supported).`
+    );
+  }
+  return loadBranch(scene.root, opts);
+}
+
+function loadBranch(data: SceneNodeData, opts: LoadSceneOptions): Node {
+  const info = nodeTypes.get(data.type);
+  if (!info) {
+    const known = [...nodeTypes.keys()].join(", ");
+    throw new Error(
+      `Unknown node type “${data.type}” for the node “${data.name}”. Call ` +
+      `registerNodeType before loading the scene. (Known types: ${known})`
+    );
+  }
+  const type = info.type as new (name: string) => Node;
+  const node: Node = info.create?.(data.name) ?? new type(data.name);
+  node.visible = data.visible ?? true;
+  node.layers = data.layers ?? 1;
+
+  if (node instanceof Node3D) {
+    node.eulerOrder = data.eulerOrder ?? EulerOrder.XYZ;
+    if (data.transform)
+      node.transform = matrix4From(data.transform);
+  }
+
+  if (node instanceof MeshNode3D) {
+    if (data.mesh !== undefined)
+      node.mesh = getMesh(data.mesh, opts);
+    node.frustumCulled = data.frustumCulled ?? true;
+    for (const uniform of data.uniforms ?? [])
+      node.uniforms.setFromTuple(uniform);
+  }
+
+  info.load?.(node, data.data, opts);
+  for (const child of data.children)
+    node.addChild(loadBranch(child, opts));
+  return node;
+}
+
+function getMesh(key: string, opts: LoadSceneOptions): Mesh|null {
+  const mesh = opts.getMesh?.(key) ?? null;
+  if (!mesh)
+    console.warn(`Could not find the mesh “${key}”.`);
+  return mesh;
+}
+
+function toTuple(vec: Vec3): Vec3Tuple {
+  return [vec.x, vec.y, vec.z];
+}
+
+function matrix4From(elems: number[]): Matrix4 {
+  const matrix = Matrix4.identity.clone();
+  matrix.elems.set(elems);
+  return matrix;
+}
+
+
+// Built-in node types
+
+registerNodeType("Node", {type: Node});
+registerNodeType("Node3D", {type: Node3D});
+registerNodeType("MeshNode3D", {type: MeshNode3D});
+
+registerNodeType("Camera3D", {
+  type: Camera3D,
+  save: camera => ({
+    isActive: camera.isActive,
+    cullMask: camera.cullMask,
+    projection: camera.projection,
+    opts: camera.opts,
+    // A custom projection is a function, so we can only save its result.
+    cameraToClip: camera.projection === CameraProjection.CUSTOM
+      ? Array.from(camera.cameraToClip.elems) : undefined
+  }),
+  load: (camera, data) => {
+    camera.isActive = data.isActive;
+    camera.cullMask = data.cullMask;
+    if (data.projection === CameraProjection.PERSPECTIVE)
+      camera.setPerspective(data.opts ?? undefined);
+    else if (data.projection === CameraProjection.ORTHOGRAPHIC)
+      camera.setOrthographic(data.opts ?? undefined);
+    else if (data.cameraToClip) {
+      const cameraToClip = matrix4From(data.cameraToClip);
+      camera.setMatrix(() => cameraToClip);
+    }
+  }
+});
+
+interface LightData {
+  intensity: number,
+  color: Vec3Tuple
+}
+
+function saveLight(light: Light3D): LightData {
+  return {intensity: light.intensity, color: toTuple(light.color)};
+}
+
+function loadLight(light: Light3D, data: LightData) {
+  light.intensity = data.intensity;
+  light.color = Vec3.from(data.color);
+}
+
+registerNodeType("PointLight3D", {
+  type: PointLight3D, save: saveLight, load: loadLight
+});
+
+registerNodeType("DirectionalLight3D", {
+  type: DirectionalLight3D,
+  save: light => ({
+    ...saveLight(light),
+    target: light.target && toTuple(light.target)
+  }),
+  load: (light, data) => {
+    loadLight(light, data);
+    light.target = data.target && Vec3.from(data.target);
+  }
+});
+
+registerNodeType("LODNode3D", {
+  type: LODNode3D,
+  save: (lod, opts) => ({
+    metric: lod.metric,
+    hysteresis: lod.hysteresis,
+    levels: lod.levels.map(level => ({
+      mesh: getMeshKey(lod, level.mesh, opts),
+      threshold: level.threshold
+    }))
+  }),
+  load: (lod, data, opts) => {
+    lod.metric = data.metric;
+    lod.hysteresis = data.hysteresis;
+    // Levels whose mesh is missing are left out.
+    const levels: LODLevel[] = [];
+    for (const level of data.levels) {
+      const mesh = getMesh(level.mesh, opts);
+      if (mesh)
+        levels.push({mesh, threshold: level.threshold});
+    }
+    lod.levels = levels;
+  }
+});
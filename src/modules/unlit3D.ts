@@ -7,6 +7,19 @@ export let unlitFlatColorShader: Shader;
 export let unlitVertexColorShader: Shader;
 export let unlitTexturedShader: Shader;
 
+// All of the fragment shaders support transparency (see BlendMode).
+const alphaSource = `
+uniform float opacity;
+uniform float alpha_cutoff;
+
+vec4 withAlpha(vec3 color, float alpha) {
+  alpha *= opacity;
+  if (alpha < alpha_cutoff)
+    discard;
+  return vec4(color, alpha);
+}
+`;
+
 // Unlit flat color
 const flatColorVertexSource = `
 attribute vec3 position;
@@ -22,9 +35,9 @@ void main() {
 const flatColorFragmentSource = `
 precision highp float;
 uniform vec3 color;
-
+${alphaSource}
 void main() {
-  gl_FragColor = vec4(color, 1);
+  gl_FragColor = withAlpha(color, 1.0);
 }
 `;
 
@@ -43,9 +56,9 @@ void main() {
 const vertexColorFragmentSource = `
 precision highp float;
 uniform vec3 color;
-
+${alphaSource}
 void main() {
-  gl_FragColor = vec4(color, 1);
+  gl_FragColor = withAlpha(color, 1.0);
 }
 `;
 
@@ -65,10 +78,10 @@ const texturedFragmentSource = `
 precision highp float;
 varying vec2 _texcoord;
 uniform sampler2D color_texture;
-
+${alphaSource}
 void main() {
-  vec3 sample = texture2D(color_texture, _texcoord).rgb;
-  gl_FragColor = vec4(sample, 1);
+  vec4 sample = texture2D(color_texture, _texcoord);
+  gl_FragColor = withAlpha(sample.rgb, sample.a);
 }
 `;
 
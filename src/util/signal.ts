@@ -0,0 +1,36 @@
+// A list of listeners that get called whenever the signal is emitted. The type
+// parameter is the list of arguments that the listeners get.
+export class Signal<Args extends unknown[] = []> {
+  _listeners: ((...args: Args) => void)[] = [];
+
+  // Returns a function that disconnects the listener again.
+  public connect(listener: (...args: Args) => void): () => void {
+    this._listeners.push(listener);
+    return () => this.disconnect(listener);
+  }
+
+  // The listener is disconnected after it's been called once.
+  public once(listener: (...args: Args) => void): () => void {
+    const disconnect = this.connect((...args) => {
+      disconnect();
+      listener(...args);
+    });
+    return disconnect;
+  }
+
+  public disconnect(listener: (...args: Args) => void) {
+    const index = this._listeners.indexOf(listener);
+    if (index !== -1)
+      this._listeners.splice(index, 1);
+  }
+
+  public emit(...args: Args) {
+    // This is called very often, so we avoid copying the list when nobody is
+    // listening.
+    if (this._listeners.length === 0)
+      return;
+    // Listeners might connect or disconnect while we're calling them.
+    for (const listener of this._listeners.slice())
+      listener(...args);
+  }
+}
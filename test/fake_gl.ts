@@ -0,0 +1,107 @@
+import {GL, initGraphics} from "../src/modules/core.ts";
+
+// A WebGL context that doesn't draw anything, for testing the engine in
+// NodeJS. Every function of the context (and of its extensions) can be called,
+// and the calls are logged so that tests can check what was drawn and how
+// often things were bound.
+
+export interface FakeGlCall {
+  name: string,
+  args: unknown[]
+}
+
+// Calls `initGraphics` with a fake canvas, and returns the log of calls that
+// the fake context fills from then on. Clear it with `log.length = 0`.
+export function initFakeGraphics(width = 800, height = 600): FakeGlCall[] {
+  const log: FakeGlCall[] = [];
+  const gl = createFakeContext(log);
+  const canvas = {
+    offsetWidth: width,
+    offsetHeight: height,
+    width,
+    height,
+    getContext: () => gl
+  };
+  globalThis.ResizeObserver ??= FakeResizeObserver;
+  initGraphics(canvas as unknown as HTMLCanvasElement);
+  return log;
+}
+
+// Sets the RGBA color that `readPixels` reads at a position (which is
+// transparent black by default).
+export function setReadPixel(read: (x: number, y: number) => number[]) {
+  readPixel = read;
+}
+
+let readPixel = (_x: number, _y: number) => [0, 0, 0, 0];
+
+// Only returns the calls of the given function.
+export function getCalls(log: FakeGlCall[], name: string): unknown[][] {
+  return log.filter(call => call.name === name).map(call => call.args);
+}
+
+// NodeJS has no ResizeObserver, but the canvas never resizes anyway.
+class FakeResizeObserver implements ResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+// Constants that the engine doesn't define (like gl.BLEND) still get a unique
+// value, so that they can be told apart in the log.
+const unknownConstants = new Map<string, number>();
+
+function getConstant(name: string): number {
+  const constant = (GL as Partial<Record<string, number>>)[name];
+  if (constant !== undefined)
+    return constant;
+  if (!unknownConstants.has(name))
+    unknownConstants.set(name, 0x10000 + unknownConstants.size);
+  return unknownConstants.get(name)!;
+}
+
+// WebGL2 contexts have all the functions of WebGL1 ones, so this works for
+// both (and for extensions, which are fake contexts as well).
+function createFakeContext(log: FakeGlCall[]): WebGL2RenderingContext {
+  const handler: ProxyHandler<object> = {
+    get: (_, name) => {
+      if (typeof name !== "string")
+        return undefined;
+      if (/^[A-Z0-9_]+$/.test(name))
+        return getConstant(name);
+      return (...args: unknown[]) => {
+        log.push({name, args});
+        return fakeResult(name, args, log);
+      };
+    }
+  };
+  return new Proxy({}, handler) as WebGL2RenderingContext;
+}
+
+function fakeResult(
+  name: string, args: unknown[], log: FakeGlCall[]
+): unknown {
+  if (name.startsWith("create"))
+    return {};
+  switch (name) {
+    case "getExtension":
+      return createFakeContext(log);
+    case "getShaderParameter":
+    case "getProgramParameter":
+      // The shaders compile and link, but they have no attributes or
+      // uniforms.
+      return (args[1] === GL.COMPILE_STATUS || args[1] === GL.LINK_STATUS);
+    case "getUniformLocation":
+      return {};
+    case "checkFramebufferStatus":
+      return getConstant("FRAMEBUFFER_COMPLETE");
+    case "readPixels": {
+      // Only single pixels are read.
+      const [x, y] = args as number[];
+      (args[6] as Uint8Array).set(readPixel(x, y));
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
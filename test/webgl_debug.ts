@@ -0,0 +1,8 @@
+// Jest loads this instead of src/external/webgl-debug.js, which is plain JS
+// with ES module syntax that Jest can't run without compiling it. The fake
+// context never reports errors, so nothing here has to check for them.
+
+export default {
+  makeDebugContext: <T>(gl: T): T => gl,
+  glEnumToString: (value: number): string => `0x${value.toString(16)}`
+};
@@ -0,0 +1,104 @@
+// Measures how long it takes to move nodes around in a big hierarchy, which is
+// what happens every frame when animating an imported model. Every case runs
+// with eager global transforms (which are updated as soon as anything moves)
+// and with lazy ones (which Node3D uses).
+// Run it with `npm run benchmark`.
+import {Node3D} from "../src/modules/3D";
+import {vec3} from "../src/math/vec";
+
+const FRAMES = 200;
+
+// The baseline: every change updates the global transforms of the whole branch
+// right away.
+class EagerNode3D extends Node3D {
+  public afterTransformChanged() {
+    this._isGlobalTransformDirty = true;
+    this._updateGlobalTransform();
+    for (const child of this.children)
+      if (child instanceof Node3D)
+        child.afterTransformChanged();
+    this.onTransformChanged.emit();
+  }
+}
+
+type NodeType3D = new () => Node3D;
+
+// Build a tree with `branching^depth` leaves.
+function buildTree(type: NodeType3D, depth: number, branching: number): Node3D {
+  const node = new type();
+  if (depth > 0) {
+    for (let i = 0; i < branching; i++) {
+      const child = buildTree(type, depth - 1, branching);
+      child.position = vec3(i, 1, 0);
+      node.addChild(child);
+    }
+  }
+  return node;
+}
+
+function countNodes(root: Node3D): number {
+  let count = 0;
+  root.recursively(() => { count++; });
+  return count;
+}
+
+// Reading every global transform once per frame is what drawing does.
+function readAllGlobalTransforms(root: Node3D) {
+  root.recursively(node => {
+    if (node instanceof Node3D)
+      node.globalTransform;
+  });
+}
+
+// Returns the time per frame in milliseconds.
+function time(type: NodeType3D, run: (root: Node3D, frame: number) => void) {
+  const root = buildTree(type, 4, 6);
+  run(root, 0);  // Warm up
+  const start = performance.now();
+  for (let frame = 1; frame <= FRAMES; frame++)
+    run(root, frame);
+  return (performance.now() - start) / FRAMES;
+}
+
+function benchmark(name: string, run: (root: Node3D, frame: number) => void) {
+  const eager = time(EagerNode3D, run);
+  const lazy = time(Node3D, run);
+  console.log(
+    `${name.padEnd(42)} ${eager.toFixed(3).padStart(7)} ms ` +
+    `${lazy.toFixed(3).padStart(7)} ms`
+  );
+}
+
+console.log(
+  `Time per frame for ${countNodes(buildTree(Node3D, 4, 6))} nodes:`
+);
+console.log(`${"".padEnd(42)} ${"eager".padStart(10)} ${"lazy".padStart(10)}`);
+
+benchmark("Set position, rotation & scale", (root, frame) => {
+  root.position = vec3(frame, 0, 0);
+  root.eulerAngles = vec3(0, frame * 0.01, 0);
+  root.scale = vec3(1 + frame * 0.001);
+});
+
+benchmark("Set position, rotation & scale, then draw", (root, frame) => {
+  root.position = vec3(frame, 0, 0);
+  root.eulerAngles = vec3(0, frame * 0.01, 0);
+  root.scale = vec3(1 + frame * 0.001);
+  readAllGlobalTransforms(root);
+});
+
+benchmark("Animate every node, then draw", (root, frame) => {
+  root.recursively(node => {
+    if (node instanceof Node3D)
+      node.eulerAngles = vec3(0, frame * 0.01, 0);
+  });
+  readAllGlobalTransforms(root);
+});
+
+benchmark("Read a leaf's global position", (root, frame) => {
+  root.position = vec3(frame, 0, 0);
+  let leaf = root;
+  while (leaf.children.length > 0)
+    leaf = leaf.children[0] as Node3D;
+  leaf.globalPosition;
+});